@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigWatcher } from './config-watcher';
+import { Job } from '../types/job-schema';
+import { Logger } from '../utils/logger';
+
+const jobYaml = (file: string): string => `
+id: users-export
+name: Users export
+schedule: '0 * * * *'
+transform: 'app.users'
+input:
+  postgres:
+    name: app
+    connection_info: postgres://localhost/app
+    sql:
+      - name: users
+        file: ${file}
+outputs:
+  - type: file
+    path: users.json
+`;
+
+describe('ConfigWatcher SQL files', () => {
+  let dir: string;
+  let watcher: ConfigWatcher;
+  let changes: Array<Map<string, Job>>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'querybird-config-'));
+    await mkdir(join(dir, 'queries'));
+    changes = [];
+    watcher = new ConfigWatcher({ configDir: dir, logger: new Logger('error'), onJobChange: (jobs) => changes.push(jobs) });
+  });
+
+  afterEach(async () => {
+    watcher.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load queries from .sql files relative to the config dir', async () => {
+    await writeFile(join(dir, 'queries', 'users.sql'), '-- Active users\nSELECT id, email FROM users WHERE active;\n');
+    await writeFile(join(dir, 'users.yml'), jobYaml('queries/users.sql'));
+
+    await watcher.reload();
+
+    const [query] = (watcher.getJob('users-export')!.input.postgres as { sql: Array<{ sql: string; file?: string }> }).sql;
+    expect(query.sql).toBe('-- Active users\nSELECT id, email FROM users WHERE active;');
+    expect(query.file).toBe('queries/users.sql');
+  });
+
+  it('should report missing .sql files as validation errors', async () => {
+    await writeFile(join(dir, 'users.yml'), jobYaml('queries/missing.sql'));
+
+    await watcher.reload();
+
+    expect(watcher.getJob('users-export')).toBeUndefined();
+    expect(Object.values(watcher.getLoadState().fileErrors)).toEqual(['Query app.users: SQL file queries/missing.sql not found']);
+  });
+
+  it('should reload the job when its .sql file changes', async () => {
+    await writeFile(join(dir, 'queries', 'users.sql'), 'SELECT 1');
+    await writeFile(join(dir, 'users.yml'), jobYaml('queries/users.sql'));
+    await watcher.start();
+
+    await writeFile(join(dir, 'queries', 'users.sql'), 'SELECT 2');
+    for (let i = 0; i < 40 && changes.length < 2; i++) {
+      await Bun.sleep(50);
+    }
+
+    const [query] = (changes.at(-1)!.get('users-export')!.input.postgres as { sql: Array<{ sql: string }> }).sql;
+    expect(query.sql).toBe('SELECT 2');
+  });
+});
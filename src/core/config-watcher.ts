@@ -1,6 +1,6 @@
 import { watch, FSWatcher } from 'fs';
 import { readdir, readFile, stat } from 'fs/promises';
-import { join, extname, basename } from 'path';
+import { join, extname, basename, dirname, resolve } from 'path';
 import { parse as parseYaml } from 'yaml';
 import { Job, JobSchema } from '../types/job-schema';
 import { Logger } from '../utils/logger';
@@ -15,6 +15,12 @@ export interface ConfigWatcherOptions {
 export class ConfigWatcher {
   private jobs = new Map<string, Job>();
   private watchers = new Map<string, FSWatcher>();
+  private fileErrors = new Map<string, string>();
+  // .sql file -> job files whose queries read it
+  private sqlFiles = new Map<string, Set<string>>();
+  private watching = false;
+  private loaded = false;
+  private loadError: string | null = null;
   private logger: Logger;
 
   constructor(private options: ConfigWatcherOptions) {
@@ -27,20 +33,33 @@ export class ConfigWatcher {
     this.logger.info(`Config watcher started, monitoring: ${this.options.configDir}`);
   }
 
+  /**
+   * Re-read every job file from the config directory
+   */
+  async reload(): Promise<void> {
+    await this.loadAllJobs();
+  }
+
   private async loadAllJobs(): Promise<void> {
     try {
       const files = await readdir(this.options.configDir);
       const jobFiles = files.filter(f => ['.yml', '.yaml', '.json'].includes(extname(f)));
       
       this.jobs.clear();
+      this.fileErrors.clear();
+      this.sqlFiles.clear();
       
       for (const file of jobFiles) {
         await this.loadJobFile(join(this.options.configDir, file));
       }
+      this.watchSqlFiles();
 
+      this.loaded = true;
+      this.loadError = null;
       this.logger.info(`Loaded ${this.jobs.size} jobs from config directory`);
       this.options.onJobChange?.(new Map(this.jobs));
     } catch (error) {
+      this.loadError = error instanceof Error ? error.message : String(error);
       this.logger.error('Failed to load jobs:', { error: error instanceof Error ? error.message : String(error) });
       this.options.onError?.(error as Error);
     }
@@ -58,10 +77,12 @@ export class ConfigWatcher {
         jobData = parseYaml(content);
       }
 
+      await this.inlineSqlFiles(jobData, filePath);
       const job = JobSchema.parse(jobData);
       const previousJob = this.jobs.get(job.id);
       
       this.jobs.set(job.id, job);
+      this.fileErrors.delete(filePath);
       
       if (!previousJob) {
         this.logger.info(`Added job: ${job.id} from ${basename(filePath)}`);
@@ -70,10 +91,104 @@ export class ConfigWatcher {
       }
     } catch (error) {
       this.logger.error(`Failed to load job from ${filePath}:`, { error: error instanceof Error ? error.message : String(error) });
+      this.fileErrors.set(filePath, error instanceof Error ? error.message : String(error));
       // Don't propagate error - continue with other jobs
     }
   }
 
+  /**
+   * Replace `file` queries with the contents of their .sql files
+   *
+   * The files are recorded as dependencies of the job file before anything can fail, so
+   * creating a missing file or fixing a broken one reloads the job.
+   */
+  private async inlineSqlFiles(jobData: unknown, jobFile: string): Promise<void> {
+    for (const files of this.sqlFiles.values()) {
+      files.delete(jobFile);
+    }
+
+    const input = (jobData as { input?: Record<string, unknown> } | null)?.input;
+    const errors: string[] = [];
+
+    for (const type of ['postgres', 'mysql', 'sqlite']) {
+      const configs = input?.[type];
+      const databases = (Array.isArray(configs) ? configs : [configs]) as Array<{ name?: string; sql?: unknown } | undefined>;
+
+      for (const database of databases) {
+        if (!Array.isArray(database?.sql)) continue;
+
+        for (const query of database.sql as Array<Record<string, unknown>>) {
+          if (typeof query?.file !== 'string') continue;
+
+          const location = `Query ${String(database.name)}.${String(query.name)}`;
+          if (query.sql !== undefined) {
+            errors.push(`${location}: use either sql or file, not both`);
+            continue;
+          }
+
+          const sqlFile = resolve(this.options.configDir, query.file);
+          if (!this.sqlFiles.has(sqlFile)) {
+            this.sqlFiles.set(sqlFile, new Set());
+          }
+          this.sqlFiles.get(sqlFile)!.add(jobFile);
+
+          try {
+            query.sql = (await readFile(sqlFile, 'utf-8')).trim();
+          } catch (error) {
+            const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'not found' : error instanceof Error ? error.message : String(error);
+            errors.push(`${location}: SQL file ${query.file} ${reason}`);
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  /**
+   * Watch the directories of the .sql files jobs read, reloading the jobs that use a file when it changes
+   */
+  private watchSqlFiles(): void {
+    if (!this.watching) return;
+
+    const directories = new Set(
+      Array.from(this.sqlFiles)
+        .filter(([, jobFiles]) => jobFiles.size > 0)
+        .map(([file]) => dirname(file))
+    );
+    for (const [key, watcher] of this.watchers) {
+      if (key !== 'main' && !directories.has(key)) {
+        watcher.close();
+        this.watchers.delete(key);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) continue;
+
+      try {
+        const watcher = watch(directory, { persistent: true }, async (_eventType, filename) => {
+          if (!filename) return;
+
+          const jobFiles = this.sqlFiles.get(join(directory, filename.toString()));
+          if (!jobFiles || jobFiles.size === 0) return;
+
+          for (const jobFile of Array.from(jobFiles)) {
+            await this.loadJobFile(jobFile);
+          }
+          this.watchSqlFiles();
+          this.options.onJobChange?.(new Map(this.jobs));
+        });
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        // A directory that doesn't exist yet is picked up on the next reload
+        this.logger.warn(`Cannot watch SQL directory ${directory}:`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
   private async watchDirectory(): Promise<void> {
     const watcher = watch(this.options.configDir, { persistent: true }, async (eventType, filename) => {
       if (!filename) return;
@@ -89,11 +204,16 @@ export class ConfigWatcher {
         if (eventType === 'change' || eventType === 'rename') {
           if (fileStats.isFile()) {
             await this.loadJobFile(filePath);
+            this.watchSqlFiles();
             this.options.onJobChange?.(new Map(this.jobs));
           }
         }
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          this.fileErrors.delete(filePath);
+          for (const files of this.sqlFiles.values()) {
+            files.delete(filePath);
+          }
           const jobId = basename(filename, ext);
           if (this.jobs.has(jobId)) {
             this.jobs.delete(jobId);
@@ -105,6 +225,8 @@ export class ConfigWatcher {
     });
 
     this.watchers.set('main', watcher);
+    this.watching = true;
+    this.watchSqlFiles();
 
     const cleanup = (): void => {
       watcher.close();
@@ -114,6 +236,17 @@ export class ConfigWatcher {
     process.on('SIGINT', cleanup);
   }
 
+  /**
+   * Whether the config directory has been loaded, and which job files failed validation
+   */
+  getLoadState(): { loaded: boolean; error?: string; fileErrors: Record<string, string> } {
+    return {
+      loaded: this.loaded,
+      error: this.loadError ?? undefined,
+      fileErrors: Object.fromEntries(this.fileErrors),
+    };
+  }
+
   getJobs(): Map<string, Job> {
     return new Map(this.jobs);
   }
@@ -129,5 +262,6 @@ export class ConfigWatcher {
       }
     }
     this.watchers.clear();
+    this.watching = false;
   }
 }
\ No newline at end of file
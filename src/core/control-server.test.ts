@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { ControlServer } from './control-server';
+import { JobRunner } from './job-runner';
+import { Logger } from '../utils/logger';
+
+let probes: Array<{ probeDatabases?: boolean }> = [];
+
+const runner = {
+  listJobs: () => [{ id: 'users-export', name: 'Users export', schedule: '0 * * * *', enabled: true, paused: false, running: false }],
+  getRunningJobs: () => new Map(),
+  checkReadiness: async (options: { probeDatabases?: boolean } = {}) => {
+    probes.push(options);
+    return { ready: false, checks: { configs: { ok: false, detail: { '/etc/querybird/configs/users.yml': 'Invalid schedule' } } } };
+  },
+} as unknown as JobRunner;
+
+let server: ControlServer;
+
+const start = (options: { token?: string; publicPort?: number } = {}): ControlServer => {
+  server = new ControlServer({ runner, logger: new Logger('error'), port: 0, ...options });
+  server.start();
+  return server;
+};
+
+const get = (port: number | undefined, path: string, token?: string): Promise<Response> =>
+  fetch(`http://127.0.0.1:${port}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+afterEach(async () => {
+  await server.stop();
+  probes = [];
+});
+
+describe('ControlServer', () => {
+  it('should require the bearer token on control routes', async () => {
+    const { port } = start({ token: 'let-me-in' });
+
+    expect((await get(port, '/jobs')).status).toBe(401);
+    expect((await get(port, '/jobs', 'let-me-out')).status).toBe(401);
+
+    const response = await get(port, '/jobs', 'let-me-in');
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as { jobs: Array<{ id: string }> }).jobs.map((job) => job.id)).toEqual(['users-export']);
+  });
+
+  it('should serve probes and metrics without the token', async () => {
+    const { port } = start({ token: 'let-me-in' });
+
+    expect((await get(port, '/healthz')).status).toBe(200);
+    expect((await get(port, '/readyz')).status).toBe(503);
+    expect((await get(port, '/metrics')).headers.get('content-type')).toStartWith('text/plain');
+  });
+
+  it('should only give readiness details and database probes to token holders on the control listener', async () => {
+    const { port, publicPort } = start({ token: 'let-me-in', publicPort: 0 });
+
+    expect(await (await get(port, '/readyz')).json()).toEqual({ ready: false });
+    expect(await (await get(publicPort, '/readyz', 'let-me-in')).json()).toEqual({ ready: false });
+    expect((await get(port, '/readyz?probe=db')).status).toBe(401);
+    expect((await get(port, '/readyz?probe=db', 'let-me-out')).status).toBe(401);
+    expect((await get(publicPort, '/readyz?probe=db', 'let-me-in')).status).toBe(401);
+    expect(probes).toEqual([{ probeDatabases: false }, { probeDatabases: false }]);
+
+    const response = await get(port, '/readyz?probe=db', 'let-me-in');
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ ready: false, checks: { configs: { ok: false, detail: { '/etc/querybird/configs/users.yml': 'Invalid schedule' } } } });
+    expect(probes.at(-1)).toEqual({ probeDatabases: true });
+  });
+
+  it('should not register control routes without a token', async () => {
+    const { port } = start();
+
+    expect((await get(port, '/jobs')).status).toBe(404);
+    expect((await fetch(`http://127.0.0.1:${port}/reload`, { method: 'POST' })).status).toBe(404);
+    expect((await get(port, '/healthz')).status).toBe(200);
+  });
+
+  it('should only serve the public routes on the public listener', async () => {
+    const { publicPort } = start({ token: 'let-me-in', publicPort: 0 });
+
+    expect((await get(publicPort, '/healthz')).status).toBe(200);
+    expect((await get(publicPort, '/metrics')).status).toBe(200);
+    expect((await get(publicPort, '/jobs', 'let-me-in')).status).toBe(404);
+    expect((await fetch(`http://127.0.0.1:${publicPort}/jobs/users-export/run`, { method: 'POST', headers: { Authorization: 'Bearer let-me-in' } })).status).toBe(404);
+  });
+});
@@ -0,0 +1,278 @@
+import type { Server } from 'bun';
+import { timingSafeEqual } from 'crypto';
+import { JobRunner, JobExecution } from './job-runner';
+import { Logger } from '../utils/logger';
+import { metrics } from './metrics';
+import { HealthMonitor } from './health';
+
+export interface ControlServerOptions {
+  runner: JobRunner;
+  logger?: Logger;
+  // The control API listens on host:port (127.0.0.1 by default), or on a unix socket when `socket` is set
+  host?: string;
+  port?: number;
+  socket?: string;
+  // A separate listener that only serves the public routes, for probes and scrapers on other hosts
+  publicHost?: string;
+  publicPort?: number;
+  // Without a token only the public routes (/healthz, /readyz, /metrics) are served
+  token?: string;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+type RouteParams = Record<string, string>;
+type Listener = 'control' | 'public';
+type RouteHandler = (request: Request, params: RouteParams, listener: Listener) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  // Public routes skip token authentication (e.g. probes and scrapers)
+  public: boolean;
+}
+
+/**
+ * Local HTTP control API for the running daemon
+ *
+ * Lets ops tooling list jobs, inspect running executions, trigger, pause and
+ * resume jobs and reload configs without restarting the process. Every route
+ * requires `Authorization: Bearer <token>` unless registered as public, like the
+ * health probes and /metrics. Only the public routes are served on the public
+ * listener, so the control routes can stay on loopback or a unix socket.
+ */
+export class ControlServer {
+  private server: Server<undefined> | null = null;
+  private publicServer: Server<undefined> | null = null;
+  private routes: Route[] = [];
+  private healthMonitor = new HealthMonitor();
+  private logger: Logger;
+
+  constructor(private options: ControlServerOptions) {
+    this.logger = options.logger || new Logger();
+
+    if (options.token) {
+      this.registerControlRoutes();
+    } else {
+      this.logger.warn('No control API token set; only /healthz, /readyz and /metrics will be served');
+    }
+
+    this.registerProbeRoutes();
+  }
+
+  addRoute(method: string, path: string, handler: RouteHandler, options: { public?: boolean } = {}): void {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      '^' +
+        path.replace(/:([a-zA-Z_]+)/g, (_match, key: string) => {
+          keys.push(key);
+          return '([^/]+)';
+        }) +
+        '/?$'
+    );
+
+    this.routes.push({ method, pattern, keys, handler, public: options.public ?? false });
+  }
+
+  start(): void {
+    this.healthMonitor.start();
+
+    const fetch = (request: Request): Promise<Response> => this.handle(request, false);
+    const host = this.options.host || '127.0.0.1';
+
+    if (this.options.socket) {
+      this.server = Bun.serve({ unix: this.options.socket, fetch });
+      this.logger.info(`Control API listening on unix socket ${this.options.socket}`);
+    } else if (this.options.port !== undefined) {
+      this.server = Bun.serve({ hostname: host, port: this.options.port, fetch });
+      this.logger.info(`Control API listening on http://${this.server.hostname}:${this.server.port}`);
+      if (this.options.token && !LOOPBACK_HOSTS.includes(host)) {
+        this.logger.warn(`Control API routes are reachable on ${host}; use --public-port to expose only /healthz, /readyz and /metrics`);
+      }
+    }
+
+    if (this.options.publicPort !== undefined) {
+      this.publicServer = Bun.serve({ hostname: this.options.publicHost || '127.0.0.1', port: this.options.publicPort, fetch: (request) => this.handle(request, true) });
+      this.logger.info(`Serving /healthz, /readyz and /metrics on http://${this.publicServer.hostname}:${this.publicServer.port}`);
+    }
+  }
+
+  get port(): number | undefined {
+    return this.server?.port;
+  }
+
+  get publicPort(): number | undefined {
+    return this.publicServer?.port;
+  }
+
+  async stop(): Promise<void> {
+    this.healthMonitor.stop();
+
+    if (this.publicServer) {
+      await this.publicServer.stop(true);
+      this.publicServer = null;
+    }
+
+    if (this.server) {
+      await this.server.stop(true);
+      this.server = null;
+      this.logger.info('Control API stopped');
+    }
+  }
+
+  private async handle(request: Request, publicOnly: boolean): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      if (publicOnly && !route.public) continue;
+
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+
+      pathMatched = true;
+      if (route.method !== request.method) continue;
+
+      if (!route.public && !this.isAuthorized(request)) {
+        return json({ error: 'Unauthorized' }, 401);
+      }
+
+      const params: RouteParams = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        return await route.handler(request, params, publicOnly ? 'public' : 'control');
+      } catch (error) {
+        this.logger.error(`Control API ${request.method} ${pathname} failed:`, { error: error instanceof Error ? error.message : String(error) });
+        return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+      }
+    }
+
+    return json({ error: pathMatched ? 'Method not allowed' : 'Not found' }, pathMatched ? 405 : 404);
+  }
+
+  private isAuthorized(request: Request): boolean {
+    if (!this.options.token) return false;
+
+    const header = request.headers.get('authorization') || '';
+    const encoder = new TextEncoder();
+    const provided = encoder.encode(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+    const expected = encoder.encode(this.options.token);
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  private registerProbeRoutes(): void {
+    // Probes and scrapers call these without credentials
+    this.addRoute(
+      'GET',
+      '/healthz',
+      () => {
+        const liveness = this.healthMonitor.liveness();
+        return json(liveness, liveness.alive ? 200 : 503);
+      },
+      { public: true }
+    );
+
+    this.addRoute(
+      'GET',
+      '/readyz',
+      async (request, _params, listener) => {
+        // The checks name jobs, files and database errors, and probing opens connections to every
+        // database, so both are reserved for token holders on the control listener
+        const detailed = listener === 'control' && this.isAuthorized(request);
+        const probeDatabases = new URL(request.url).searchParams.get('probe') === 'db';
+        if (probeDatabases && !detailed) {
+          return json({ error: 'Unauthorized' }, 401);
+        }
+
+        const readiness = await this.options.runner.checkReadiness({ probeDatabases });
+        return json(detailed ? readiness : { ready: readiness.ready }, readiness.ready ? 200 : 503);
+      },
+      { public: true }
+    );
+
+    this.addRoute('GET', '/metrics', () => new Response(metrics.render(), { headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' } }), { public: true });
+  }
+
+  private registerControlRoutes(): void {
+    const { runner } = this.options;
+
+    const findJob = (jobId: string) => runner.listJobs().find((job) => job.id === jobId);
+
+    this.addRoute('GET', '/jobs', () => json({ jobs: runner.listJobs() }));
+
+    this.addRoute('GET', '/jobs/:id', (_request, params) => {
+      const job = findJob(params.id);
+      return job ? json(job) : json({ error: `Job not found: ${params.id}` }, 404);
+    });
+
+    this.addRoute('GET', '/executions', () => json({ executions: Array.from(runner.getRunningJobs().values()).map(serializeExecution) }));
+
+    this.addRoute('POST', '/jobs/:id/run', async (request, params) => {
+      const job = findJob(params.id);
+      if (!job) {
+        return json({ error: `Job not found: ${params.id}` }, 404);
+      }
+      if (job.running) {
+        return json({ error: `Job ${params.id} is already running` }, 409);
+      }
+
+      const { runId, completion } = runner.triggerJob(params.id);
+      this.logger.info(`Job ${params.id} triggered via control API (run ${runId})`);
+
+      if (new URL(request.url).searchParams.get('wait') === 'true') {
+        return json(serializeExecution(await completion));
+      }
+
+      completion.catch((error) => {
+        this.logger.error(`Triggered run ${runId} of job ${params.id} failed to start:`, { error: error instanceof Error ? error.message : String(error) });
+      });
+      return json({ job_id: params.id, run_id: runId, status: 'running' }, 202);
+    });
+
+    this.addRoute('POST', '/jobs/:id/pause', (_request, params) => {
+      if (!findJob(params.id)) {
+        return json({ error: `Job not found: ${params.id}` }, 404);
+      }
+      runner.pauseJob(params.id);
+      return json(findJob(params.id));
+    });
+
+    this.addRoute('POST', '/jobs/:id/resume', (_request, params) => {
+      if (!findJob(params.id)) {
+        return json({ error: `Job not found: ${params.id}` }, 404);
+      }
+      runner.resumeJob(params.id);
+      return json(findJob(params.id));
+    });
+
+    this.addRoute('POST', '/reload', async () => {
+      await runner.reloadConfigs();
+      return json({ jobs: runner.listJobs() });
+    });
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function serializeExecution(execution: JobExecution): Record<string, unknown> {
+  return {
+    run_id: execution.runId,
+    job_id: execution.jobId,
+    trigger: execution.trigger,
+    status: execution.status,
+    started_at: execution.startedAt.toISOString(),
+    duration_ms: execution.duration ?? Date.now() - execution.startedAt.getTime(),
+    stages: execution.stages,
+    result: execution.result,
+    error: execution.error?.message,
+    error_stage: execution.errorStage,
+  };
+}
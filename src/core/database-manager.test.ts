@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, setSystemTime } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { DatabaseManager } from './database-manager';
+import { PostgresServer } from './testing/postgres-server';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { Logger } from '../utils/logger';
+
+describe('DatabaseManager SQLite', () => {
+  const manager = new DatabaseManager({} as ImprovedSecretsManager, new Logger('error'));
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'querybird-sqlite-'));
+    path = join(dir, 'edge.db');
+
+    const db = new Database(path);
+    db.run('CREATE TABLE events (id INTEGER PRIMARY KEY, kind TEXT)');
+    const insert = db.prepare('INSERT INTO events (kind) VALUES (?)');
+    for (let i = 0; i < 25; i++) {
+      insert.run(i % 2 === 0 ? 'open' : 'close');
+    }
+    db.close();
+  });
+
+  afterAll(async () => {
+    await manager.closeAll();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should run queries with bind parameters', async () => {
+    const connection = await manager.getConnection('sqlite', path);
+
+    const rows = await connection.query('SELECT id, kind FROM events WHERE id > ? AND kind = ? ORDER BY id', [20, 'open']);
+
+    expect(rows).toEqual([
+      { id: 21, kind: 'open' },
+      { id: 23, kind: 'open' },
+      { id: 25, kind: 'open' },
+    ]);
+  });
+
+  it('should open the file read-only', async () => {
+    const connection = await manager.getConnection('sqlite', pathToFileURL(path).toString());
+
+    await expect(connection.query('DELETE FROM events')).rejects.toThrow('readonly');
+    expect(await connection.query('SELECT COUNT(*) AS count FROM events')).toEqual([{ count: 25 }]);
+  });
+
+  it('should stream rows in batches', async () => {
+    const connection = await manager.getConnection('sqlite', path);
+
+    const batches: unknown[][] = [];
+    for await (const rows of connection.stream('SELECT id FROM events ORDER BY id', [], { batchSize: 10 })) {
+      batches.push(rows);
+    }
+
+    expect(batches.map((rows) => rows.length)).toEqual([10, 10, 5]);
+  });
+
+  it('should not create missing database files', async () => {
+    await expect(manager.getConnection('sqlite', join(dir, 'missing.db'))).rejects.toThrow();
+  });
+
+  it('should evict connections unused for evict_after', async () => {
+    const pool = { max: 1, idle_timeout: 1000, validate: true, evict_after: 60000 };
+    // Another connection_info for the same file, so this pool is separate from the other tests
+    const connection = await manager.getConnection('sqlite', `${dir}//edge.db`, pool);
+    await connection.query('SELECT 1');
+
+    await manager.evictIdle(Date.now() + 30000);
+    expect(await manager.getConnection('sqlite', `${dir}//edge.db`, pool)).toBe(connection);
+
+    await manager.evictIdle(Date.now() + 60000);
+    expect(await manager.getConnection('sqlite', `${dir}//edge.db`, pool)).not.toBe(connection);
+  });
+});
+
+describe('DatabaseManager PostgreSQL pools', () => {
+  const manager = new DatabaseManager({} as ImprovedSecretsManager, new Logger('error'));
+  const postgres = new PostgresServer();
+  const pool = { max: 2, idle_timeout: 30000, validate: true, evict_after: 600000 };
+  let pools = 0;
+  // Each test gets a pool of its own
+  const connect = (options = pool) => manager.getConnection('postgres', `${postgres.url}&test=${++pools}`, options);
+
+  beforeAll(async () => {
+    await postgres.listen();
+  });
+
+  beforeEach(() => {
+    postgres.reset();
+  });
+
+  afterAll(async () => {
+    setSystemTime();
+    await manager.closeAll();
+    postgres.close();
+  });
+
+  it('should validate pooled connections and replace broken ones', async () => {
+    const connection = await connect();
+    await connection.query('SELECT 1 AS one');
+
+    // The pooled connection's backend is going away
+    postgres.failures = 1;
+    expect(await connection.query('SELECT 1 AS one')).toEqual([{ one: '1' }]);
+
+    expect(postgres.statements).toEqual(['SELECT 1', 'SELECT 1 AS one', 'SELECT 1', 'SELECT 1', 'SELECT 1 AS one']);
+    expect(postgres.connections).toBe(2);
+    expect(connection.connectionCount()).toBe(1);
+  });
+
+  it('should give up after trying as many connections as the pool holds', async () => {
+    const connection = await connect({ ...pool, max: 1 });
+    postgres.failures = 10;
+
+    await expect(connection.query('SELECT 1 AS one')).rejects.toThrow('terminating connection');
+    expect(postgres.statements).toEqual(['SELECT 1', 'SELECT 1']);
+    expect(connection.connectionCount()).toBe(0);
+  });
+
+  it('should reconnect after the connections were dropped', async () => {
+    const connection = await connect();
+    await connection.query('SELECT 1 AS one');
+
+    postgres.drop();
+    await Bun.sleep(50);
+
+    expect(await connection.query('SELECT 1 AS one')).toEqual([{ one: '1' }]);
+    expect(postgres.connections).toBe(2);
+  });
+
+  it('should count open connections and close them with the pool', async () => {
+    const connection = await connect();
+    await Promise.all([connection.query('SELECT 1 AS one'), connection.query('SELECT 1 AS one')]);
+
+    expect(connection.connectionCount()).toBe(2);
+    await connection.close();
+    expect(connection.connectionCount()).toBe(0);
+  });
+
+  it('should not evict a pool that was just handed out', async () => {
+    const info = `${postgres.url}&test=evict`;
+    const connection = await manager.getConnection('postgres', info, pool);
+    await connection.query('SELECT 1 AS one');
+
+    // Unused for longer than evict_after, then handed to a job that is about to query it
+    setSystemTime(new Date(Date.now() + pool.evict_after));
+    expect(await manager.getConnection('postgres', info, pool)).toBe(connection);
+    await manager.evictIdle();
+    expect(await manager.getConnection('postgres', info, pool)).toBe(connection);
+
+    await manager.evictIdle(Date.now() + pool.evict_after);
+    expect(await manager.getConnection('postgres', info, pool)).not.toBe(connection);
+    setSystemTime();
+  });
+});
+
+describe('DatabaseManager MySQL connection count', () => {
+  const manager = new DatabaseManager({} as ImprovedSecretsManager, new Logger('error'));
+
+  afterAll(async () => {
+    await manager.closeAll();
+  });
+
+  it('should count connections while they are checked out', async () => {
+    // Pools connect lazily, so the pool can be swapped for one that hands out stand-in connections
+    const connection = await manager.getConnection('mysql', 'mysql://querybird@127.0.0.1:3306/app');
+    let during = -1;
+    let released = 0;
+    const pooled = {
+      threadId: 1,
+      query: async () => [[]],
+      execute: async () => {
+        during = connection.connectionCount();
+        return [[{ one: 1 }]];
+      },
+      release: () => released++,
+      destroy: () => undefined,
+    };
+    (connection as unknown as { pool: unknown }).pool = { getConnection: async () => pooled, end: async () => undefined };
+
+    expect(await connection.query('SELECT 1 AS one')).toEqual([{ one: 1 }]);
+    expect(during).toBe(1);
+    expect(released).toBe(1);
+    expect(connection.connectionCount()).toBe(0);
+
+    pooled.execute = async () => {
+      throw new Error('Lost connection');
+    };
+    await expect(connection.query('SELECT 1 AS one')).rejects.toThrow('Lost connection');
+    expect(connection.connectionCount()).toBe(0);
+  });
+});
+
+describe('DatabaseManager TLS', () => {
+  const manager = new DatabaseManager({} as ImprovedSecretsManager, new Logger('error'));
+  const connectionInfo = (tls: Record<string, unknown>): string => JSON.stringify({ host: 'db.internal', database: 'app', user: 'app', password: 'secret', ...tls });
+
+  // Pools connect lazily, so the TLS options they were created with can be read without a server
+  const pgSsl = async (tls: Record<string, unknown>, target = manager): Promise<Record<string, unknown> | false> =>
+    ((await target.getConnection('postgres', connectionInfo(tls))) as unknown as { clientConfig: { ssl: Record<string, unknown> | false } }).clientConfig.ssl;
+  const mysqlSsl = async (tls: Record<string, unknown>, target = manager): Promise<Record<string, unknown> | undefined> =>
+    ((await target.getConnection('mysql', connectionInfo(tls))) as unknown as { connectionConfig: { ssl?: Record<string, unknown> } }).connectionConfig.ssl;
+
+  afterAll(async () => {
+    await manager.closeAll();
+  });
+
+  it('should verify the certificate and host name by default and with verify-full', async () => {
+    for (const tls of [{}, { ssl: true }, { sslmode: 'verify-full' }]) {
+      const ssl = await pgSsl(tls);
+      expect(ssl).toMatchObject({ rejectUnauthorized: true });
+      expect((ssl as Record<string, unknown>).checkServerIdentity).toBeUndefined();
+    }
+
+    expect(await mysqlSsl({ sslmode: 'verify-full' })).toMatchObject({ rejectUnauthorized: true, verifyIdentity: true });
+    expect(await mysqlSsl({ ssl: true })).toMatchObject({ rejectUnauthorized: true, verifyIdentity: true });
+  });
+
+  it('should keep MySQL and ssl: false unencrypted', async () => {
+    expect(await mysqlSsl({})).toBeUndefined();
+    expect(await pgSsl({ ssl: false })).toBe(false);
+    expect(await pgSsl({ sslmode: 'disable' })).toBe(false);
+  });
+
+  it('should verify the chain but not the host name with verify-ca', async () => {
+    const ssl = (await pgSsl({ sslmode: 'verify-ca' })) as Record<string, unknown>;
+    expect(ssl.rejectUnauthorized).toBe(true);
+    expect((ssl.checkServerIdentity as () => unknown)()).toBeUndefined();
+
+    expect(await mysqlSsl({ sslmode: 'verify-ca' })).toMatchObject({ rejectUnauthorized: true, verifyIdentity: false });
+  });
+
+  it('should encrypt without verifying with require', async () => {
+    expect(await pgSsl({ sslmode: 'require' })).toMatchObject({ rejectUnauthorized: false });
+    expect(await mysqlSsl({ sslmode: 'require' })).toMatchObject({ rejectUnauthorized: false, verifyIdentity: false });
+  });
+
+  it('should resolve certificates and keys from secrets', async () => {
+    const secrets = { resolveSecret: async (value: string) => (value.startsWith('!secrets ') ? `PEM ${value.slice('!secrets '.length)}` : value) } as unknown as ImprovedSecretsManager;
+    const withSecrets = new DatabaseManager(secrets, new Logger('error'));
+    const tls = { sslmode: 'verify-full', ssl_ca: '!secrets tls.ca', ssl_cert: '!secrets tls.cert', ssl_key: '!secrets tls.key' };
+
+    try {
+      expect(await pgSsl({ ...tls, ssl_servername: 'db.example.com' }, withSecrets)).toMatchObject({
+        ca: 'PEM tls.ca',
+        cert: 'PEM tls.cert',
+        key: 'PEM tls.key',
+        servername: 'db.example.com',
+      });
+      expect(await mysqlSsl(tls, withSecrets)).toMatchObject({ ca: 'PEM tls.ca', cert: 'PEM tls.cert', key: 'PEM tls.key' });
+    } finally {
+      await withSecrets.closeAll();
+    }
+  });
+
+  it('should reject sslmodes that fall back to plaintext', async () => {
+    await expect(manager.getConnection('postgres', connectionInfo({ sslmode: 'prefer' }))).rejects.toThrow('Unsupported sslmode "prefer"');
+  });
+
+  it('should require a client certificate and key together', async () => {
+    await expect(manager.getConnection('mysql', connectionInfo({ sslmode: 'verify-full', ssl_cert: 'PEM' }))).rejects.toThrow('ssl_cert and ssl_key must be set together');
+  });
+});
@@ -1,7 +1,19 @@
-import { Client as PgClient } from 'pg';
+import { Client as PgClient, ClientConfig as PgClientConfig, Pool as PgPool, PoolClient } from 'pg';
 import mysql from 'mysql2/promise';
+import { createConnection as createMySqlStreamConnection } from 'mysql2';
+import { Database as SqliteDatabase, SQLQueryBindings } from 'bun:sqlite';
+import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
 import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
 import { Logger } from '../utils/logger';
+import { abortable } from '../utils/abort';
+import { DatabasePool } from '../types/job-schema';
+
+export type DatabaseType = 'postgres' | 'mysql' | 'sqlite';
+
+// libpq's sslmode values, minus the modes that silently fall back to plaintext
+const SSL_MODES = ['disable', 'require', 'verify-ca', 'verify-full'] as const;
+type SslMode = (typeof SSL_MODES)[number];
 
 interface DatabaseConfig {
   host: string;
@@ -10,61 +22,523 @@ interface DatabaseConfig {
   user: string;
   username?: string;
   password: string;
+  // Superseded by sslmode: false is disable, true is verify-full
   ssl?: boolean;
+  sslmode?: SslMode;
+  // PEM contents, or !secrets references to them
+  ssl_ca?: string;
+  ssl_cert?: string;
+  ssl_key?: string;
+  // Name to verify the certificate against, when it differs from host
+  ssl_servername?: string;
   timeout?: number;
 }
 
+interface DatabaseTls {
+  mode: Exclude<SslMode, 'disable'>;
+  ca?: string;
+  cert?: string;
+  key?: string;
+  servername?: string;
+}
+
+export interface QueryOptions {
+  // Aborting the signal cancels the in-flight query on the server
+  signal?: AbortSignal;
+  // Run in a read-only transaction, so the database rejects writes
+  readOnly?: boolean;
+  // Milliseconds after which the database aborts the statement
+  statementTimeout?: number;
+}
+
+export interface StreamOptions extends QueryOptions {
+  // Rows per yielded batch
+  batchSize: number;
+}
+
 export interface DatabaseConnection {
-  query(sql: string, params?: unknown[]): Promise<unknown[]>;
+  query(sql: string, params?: unknown[], options?: QueryOptions): Promise<unknown[]>;
+  /**
+   * Read a result set in batches without loading it into memory. Streams run on
+   * their own connection, so a long export doesn't block other queries.
+   */
+  stream(sql: string, params: unknown[], options: StreamOptions): AsyncIterable<unknown[]>;
+  // Open connections, pooled or not; MySQL only counts those in use
+  connectionCount(): number;
+  // When the connection was last used, or null while a query or stream is running
+  idleSince(): number | null;
   close(): Promise<void>;
 }
 
+/**
+ * Counts checked-out connections, so the manager only evicts pools nothing is using
+ */
+class PoolUsage {
+  private active = 0;
+  private lastUsed = Date.now();
+
+  begin(): void {
+    this.active++;
+  }
+
+  end(): void {
+    this.active--;
+    this.lastUsed = Date.now();
+  }
+
+  idleSince(): number | null {
+    return this.active > 0 ? null : this.lastUsed;
+  }
+}
+
 class PostgresConnection implements DatabaseConnection {
-  constructor(private client: PgClient) {}
+  private usage = new PoolUsage();
+
+  constructor(private pool: PgPool, private clientConfig: PgClientConfig, private options: DatabasePool, private logger: Logger) {
+    // Idle clients whose connection drops are removed from the pool; without a listener the error would crash the process
+    pool.on('error', (error) => {
+      this.logger.warn('Idle PostgreSQL connection failed and was removed from the pool:', { error: error.message });
+    });
+  }
+
+  async query(sql: string, params?: unknown[], options: QueryOptions = {}): Promise<unknown[]> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    this.usage.begin();
+    let client: PoolClient | null = null;
+    let transaction = false;
+    const onAbort = (): void => {
+      if (client) void this.cancel(client);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      client = await this.checkout(signal);
+      transaction = await this.begin(client, options);
+      const result = await abortable(client.query(sql, params), signal);
+      if (transaction) {
+        await client.query('COMMIT');
+      }
+      return result.rows;
+    } catch (error) {
+      // Don't return a client to the pool in the middle of a failed transaction
+      if (client && transaction && !signal?.aborted) {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // A cancelled client may still be finishing its query, so it is not reused
+      client?.release(signal?.aborted ? new Error('Query cancelled') : undefined);
+      this.usage.end();
+    }
+  }
+
+  /**
+   * Fetch through a server-side cursor, which has to live inside a transaction
+   */
+  async *stream(sql: string, params: unknown[], options: StreamOptions): AsyncIterable<unknown[]> {
+    const { signal, batchSize } = options;
+    signal?.throwIfAborted();
+
+    this.usage.begin();
+    const cursor = `querybird_${randomUUID().replace(/-/g, '')}`;
+    let client: PoolClient | null = null;
+    let finished = false;
+    const onAbort = (): void => {
+      if (client) void this.cancel(client);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      client = await this.checkout(signal);
+      await this.begin(client, options, true);
+      await abortable(client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql.trim().replace(/;$/, '')}`, params), signal);
+
+      while (true) {
+        const result = await abortable(client.query(`FETCH FORWARD ${batchSize} FROM ${cursor}`), signal);
+        if (result.rows.length > 0) {
+          yield result.rows;
+        }
+        if (result.rows.length < batchSize) break;
+      }
+
+      await client.query('COMMIT');
+      finished = true;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // Closing the connection also rolls back an unfinished transaction and its cursor
+      client?.release(finished ? undefined : new Error('Stream ended early'));
+      this.usage.end();
+    }
+  }
+
+  /**
+   * Open a transaction when the query needs one; SET LOCAL keeps the timeout from outliving it
+   */
+  private async begin(client: PoolClient, options: QueryOptions, always = false): Promise<boolean> {
+    const { readOnly, statementTimeout } = options;
+    if (!always && !readOnly && statementTimeout === undefined) {
+      return false;
+    }
+
+    await client.query(readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+    if (statementTimeout !== undefined) {
+      await client.query(`SET LOCAL statement_timeout = ${Number(statementTimeout)}`);
+    }
+    return true;
+  }
+
+  /**
+   * Take a client from the pool, replacing clients whose connection has died
+   */
+  private async checkout(signal?: AbortSignal): Promise<PoolClient> {
+    for (let attempt = 1; ; attempt++) {
+      const pending = this.pool.connect();
+      let client: PoolClient;
+      try {
+        client = await abortable(pending, signal);
+      } catch (error) {
+        // Give back a client that arrives after the caller stopped waiting
+        pending.then((late) => late.release(), () => undefined);
+        throw error;
+      }
 
-  async query(sql: string, params?: unknown[]): Promise<unknown[]> {
-    const result = await this.client.query(sql, params);
-    return result.rows;
+      if (!this.options.validate) return client;
+      try {
+        await abortable(client.query('SELECT 1'), signal);
+        return client;
+      } catch (error) {
+        client.release(error instanceof Error ? error : new Error(String(error)));
+        // Every pooled client may have died with the network; after that, the error is real
+        if (signal?.aborted || attempt > this.options.max) throw error;
+        this.logger.warn('Discarded a broken PostgreSQL connection from the pool:', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  /**
+   * Cancel the running query from a separate connection, like pg_cancel_backend does from psql
+   */
+  private async cancel(client: PoolClient): Promise<void> {
+    const processId = (client as PoolClient & { processID?: number }).processID;
+    if (!processId) return;
+
+    const canceller = new PgClient(this.clientConfig);
+    try {
+      await canceller.connect();
+      await canceller.query('SELECT pg_cancel_backend($1)', [processId]);
+      this.logger.warn(`Cancelled PostgreSQL query on backend ${processId}`);
+    } catch (error) {
+      this.logger.error(`Failed to cancel PostgreSQL query on backend ${processId}:`, { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      await canceller.end().catch(() => undefined);
+    }
+  }
+
+  connectionCount(): number {
+    return this.pool.totalCount;
+  }
+
+  idleSince(): number | null {
+    return this.usage.idleSince();
   }
 
   async close(): Promise<void> {
-    await this.client.end();
+    await this.pool.end();
   }
 }
 
 class MySqlConnection implements DatabaseConnection {
-  constructor(private connection: mysql.Connection) {}
+  private usage = new PoolUsage();
+  // Connections checked out of the pool or opened for a stream; mysql2 has no public count
+  private open = 0;
+
+  constructor(private pool: mysql.Pool, private connectionConfig: mysql.ConnectionOptions, private options: DatabasePool, private logger: Logger) {}
 
-  async query(sql: string, params?: unknown[]): Promise<unknown[]> {
-    const [rows] = await this.connection.execute(sql, params);
-    return rows as unknown[];
+  async query(sql: string, params?: unknown[], options: QueryOptions = {}): Promise<unknown[]> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    this.usage.begin();
+    let connection: mysql.PoolConnection | null = null;
+    const onAbort = (): void => {
+      if (connection) void this.kill(connection.threadId);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const pooled = await this.checkout(signal);
+      connection = pooled;
+      this.open++;
+      await this.configureSession((statement) => pooled.query(statement).then(() => undefined), options);
+      const [rows] = await abortable(pooled.execute(sql, params), signal);
+      return rows as unknown[];
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (connection) {
+        if (signal?.aborted) {
+          connection.destroy();
+        } else {
+          connection.release();
+        }
+        this.open--;
+      }
+      this.usage.end();
+    }
+  }
+
+  /**
+   * Stream rows from the server as they arrive instead of buffering the result set
+   *
+   * Streams use a connection of their own outside the pool, since the row stream is only
+   * available on the callback API.
+   */
+  async *stream(sql: string, params: unknown[], options: StreamOptions): AsyncIterable<unknown[]> {
+    const { signal, batchSize } = options;
+    signal?.throwIfAborted();
+
+    this.usage.begin();
+    // The callback API exposes the row stream, with backpressure through pause/resume
+    const connection = createMySqlStreamConnection(this.connectionConfig);
+    this.open++;
+    const onAbort = (): void => {
+      void this.kill(connection.threadId);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let finished = false;
+
+    try {
+      await this.configureSession(
+        (statement) => new Promise<void>((resolve, reject) => connection.query(statement, (error) => (error ? reject(error) : resolve()))),
+        options
+      );
+      const rows = connection.query(sql, params).stream({ highWaterMark: batchSize });
+
+      let batch: unknown[] = [];
+      for await (const row of rows) {
+        signal?.throwIfAborted();
+        batch.push(row);
+        if (batch.length >= batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+      finished = true;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (finished) {
+        await new Promise<void>((resolve) => connection.end(() => resolve()));
+      } else {
+        // Stop the statement on the server before dropping the connection
+        await this.kill(connection.threadId);
+        connection.destroy();
+      }
+      this.open--;
+      this.usage.end();
+    }
+  }
+
+  /**
+   * Apply the query's read-only mode and timeout to the session
+   *
+   * Both are set every time, since pooled connections keep the settings of their previous query.
+   * MAX_EXECUTION_TIME only limits SELECT statements.
+   */
+  private async configureSession(run: (statement: string) => Promise<void>, options: QueryOptions): Promise<void> {
+    const { readOnly, statementTimeout } = options;
+    if (readOnly === undefined && statementTimeout === undefined) return;
+
+    await run(`SET SESSION TRANSACTION ${readOnly ? 'READ ONLY' : 'READ WRITE'}`);
+    await run(`SET SESSION MAX_EXECUTION_TIME = ${Number(statementTimeout ?? 0)}`);
+  }
+
+  /**
+   * Take a connection from the pool, replacing connections that have died
+   */
+  private async checkout(signal?: AbortSignal): Promise<mysql.PoolConnection> {
+    for (let attempt = 1; ; attempt++) {
+      const pending = this.pool.getConnection();
+      let connection: mysql.PoolConnection;
+      try {
+        connection = await abortable(pending, signal);
+      } catch (error) {
+        pending.then((late) => late.release(), () => undefined);
+        throw error;
+      }
+
+      if (!this.options.validate) return connection;
+      try {
+        await abortable(connection.query('SELECT 1'), signal);
+        return connection;
+      } catch (error) {
+        connection.destroy();
+        if (signal?.aborted || attempt > this.options.max) throw error;
+        this.logger.warn('Discarded a broken MySQL connection from the pool:', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  /**
+   * Kill the running statement from a separate connection with KILL QUERY
+   */
+  private async kill(threadId: number | null): Promise<void> {
+    if (!threadId) return;
+
+    let killer: mysql.Connection | null = null;
+    try {
+      killer = await mysql.createConnection(this.connectionConfig);
+      await killer.query(`KILL QUERY ${Number(threadId)}`);
+      this.logger.warn(`Killed MySQL query on thread ${threadId}`);
+    } catch (error) {
+      this.logger.error(`Failed to kill MySQL query on thread ${threadId}:`, { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      await killer?.end().catch(() => undefined);
+    }
+  }
+
+  connectionCount(): number {
+    return this.open;
+  }
+
+  idleSince(): number | null {
+    return this.usage.idleSince();
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * A SQLite file opened read-only, so a job can never modify the state of the service that owns it
+ *
+ * bun:sqlite runs statements synchronously, so a query can't be interrupted once started;
+ * cancellation is checked before each query and between streamed batches.
+ */
+class SqliteConnection implements DatabaseConnection {
+  private usage = new PoolUsage();
+
+  constructor(private db: SqliteDatabase, private path: string) {}
+
+  async query(sql: string, params: unknown[] = [], options: QueryOptions = {}): Promise<unknown[]> {
+    options.signal?.throwIfAborted();
+    this.usage.begin();
+    try {
+      return this.db.query(sql).all(...sqliteBindings(params));
+    } finally {
+      this.usage.end();
+    }
+  }
+
+  async *stream(sql: string, params: unknown[], options: StreamOptions): AsyncIterable<unknown[]> {
+    const { signal, batchSize } = options;
+    signal?.throwIfAborted();
+
+    this.usage.begin();
+    const db = openSqlite(this.path);
+    try {
+      let batch: unknown[] = [];
+      for (const row of db.query(sql).iterate(...sqliteBindings(params))) {
+        batch.push(row);
+        if (batch.length >= batchSize) {
+          yield batch;
+          batch = [];
+          signal?.throwIfAborted();
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    } finally {
+      db.close();
+      this.usage.end();
+    }
+  }
+
+  connectionCount(): number {
+    return 1;
+  }
+
+  idleSince(): number | null {
+    return this.usage.idleSince();
   }
 
   async close(): Promise<void> {
-    await this.connection.end();
+    this.db.close();
   }
 }
 
+// SQLite has no date type; dates are bound as ISO 8601 text, which sorts and compares correctly
+function sqliteBindings(params: unknown[]): SQLQueryBindings[] {
+  return params.map((param) => (param instanceof Date ? param.toISOString() : param)) as SQLQueryBindings[];
+}
+
+function openSqlite(path: string): SqliteDatabase {
+  const db = new SqliteDatabase(path, { readonly: true });
+  // Wait for a writer to finish instead of failing at once with SQLITE_BUSY
+  db.run('PRAGMA busy_timeout = 5000');
+  return db;
+}
+
+const DEFAULT_POOL: DatabasePool = { max: 10, idle_timeout: 30000, validate: true, evict_after: 600000 };
+
+// How often pools are checked for eviction
+const EVICTION_INTERVAL = 60000;
+
 export class DatabaseManager {
-  private connections = new Map<string, DatabaseConnection>();
+  // handedOutAt keeps a pool that was just returned to a job from being evicted before its first query
+  private connections = new Map<string, { connection: DatabaseConnection; evictAfter: number; handedOutAt: number }>();
+  private pending = new Map<string, Promise<DatabaseConnection>>();
+  private evictionTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(private secretsManager: ImprovedSecretsManager, private logger: Logger) {}
 
-  async getConnection(type: 'postgres' | 'mysql', connectionInfo: string): Promise<DatabaseConnection> {
+  /**
+   * The pool for a database, created on first use and shared by every job that names the same
+   * connection. Pool options only take effect when the pool is created.
+   */
+  async getConnection(type: DatabaseType, connectionInfo: string, pool: DatabasePool = DEFAULT_POOL): Promise<DatabaseConnection> {
     const connectionKey = `${type}:${connectionInfo}`;
 
-    let connection = this.connections.get(connectionKey);
-    if (connection) {
-      return connection;
+    const existing = this.connections.get(connectionKey);
+    if (existing) {
+      existing.handedOutAt = Date.now();
+      return existing.connection;
     }
 
-    connection = await this.createConnection(type, connectionInfo);
-    this.connections.set(connectionKey, connection);
+    // Concurrent callers wait for the same pool instead of creating one each
+    let pending = this.pending.get(connectionKey);
+    if (!pending) {
+      pending = this.createConnection(type, connectionInfo, pool)
+        .then((connection) => {
+          this.connections.set(connectionKey, { connection, evictAfter: pool.evict_after, handedOutAt: Date.now() });
+          if (pool.evict_after > 0) {
+            this.startEviction();
+          }
+          return connection;
+        })
+        .finally(() => this.pending.delete(connectionKey));
+      this.pending.set(connectionKey, pending);
+    }
 
-    return connection;
+    return pending;
   }
 
-  private async createConnection(type: 'postgres' | 'mysql', connectionInfo: string): Promise<DatabaseConnection> {
+  private async createConnection(type: DatabaseType, connectionInfo: string, pool: DatabasePool): Promise<DatabaseConnection> {
+    if (type === 'sqlite') {
+      // connection_info is the path of the database file, or a file: URL
+      const path = connectionInfo.startsWith('file:') ? fileURLToPath(connectionInfo) : connectionInfo;
+      const db = openSqlite(path);
+      this.logger.info(`Opened SQLite database read-only: ${path}`);
+      return new SqliteConnection(db, path);
+    }
+
     let config: DatabaseConfig;
     try {
       config = JSON.parse(connectionInfo) as DatabaseConfig;
@@ -72,22 +546,34 @@ export class DatabaseManager {
       this.logger.debug(`Failed to parse connection info as JSON, trying as URL: ${connectionInfo}`);
       config = this.parseConnectionUrl(connectionInfo);
     }
+    const tls = await this.resolveTls(type, config);
+    const sslmode = tls?.mode ?? 'disable';
 
     if (type === 'postgres') {
-      const client = new PgClient({
+      const clientConfig: PgClientConfig = {
         host: config.host,
         port: config.port || 5432,
         database: config.database,
         user: config.user || config.username,
         password: config.password,
-        ssl: config.ssl !== false ? { rejectUnauthorized: false } : false,
+        ssl: tls
+          ? {
+              rejectUnauthorized: tls.mode !== 'require',
+              ca: tls.ca,
+              cert: tls.cert,
+              key: tls.key,
+              servername: tls.servername,
+              // verify-ca trusts any name on a certificate signed by the CA
+              ...(tls.mode === 'verify-ca' ? { checkServerIdentity: () => undefined } : {}),
+            }
+          : false,
         connectionTimeoutMillis: config.timeout || 30000,
-      });
-
-      await client.connect();
-      this.logger.info(`Connected to PostgreSQL: ${config.host}:${config.port}/${config.database}`);
+      };
+      // Connections are opened on checkout; keepAlive makes dropped connections fail fast
+      const pgPool = new PgPool({ ...clientConfig, max: pool.max, idleTimeoutMillis: pool.idle_timeout, keepAlive: true });
+      this.logger.info(`Created PostgreSQL pool (max ${pool.max}, sslmode ${sslmode}): ${config.host}:${config.port}/${config.database}`);
 
-      return new PostgresConnection(client);
+      return new PostgresConnection(pgPool, clientConfig, pool, this.logger);
     } else {
       const mysqlConfig: mysql.ConnectionOptions = {
         host: config.host,
@@ -97,17 +583,100 @@ export class DatabaseManager {
         password: config.password,
       };
 
-      // Set SSL configuration - empty object enables SSL with defaults
-      if (config.ssl === true) {
-        mysqlConfig.ssl = {}; // Enable SSL with default settings
+      if (tls) {
+        mysqlConfig.ssl = {
+          rejectUnauthorized: tls.mode !== 'require',
+          verifyIdentity: tls.mode === 'verify-full',
+          ca: tls.ca,
+          cert: tls.cert,
+          key: tls.key,
+        };
       }
-      // When ssl is false or undefined, we omit the ssl property entirely
 
-      const connection = await mysql.createConnection(mysqlConfig);
+      const mysqlPool = mysql.createPool({
+        ...mysqlConfig,
+        connectionLimit: pool.max,
+        maxIdle: pool.max,
+        idleTimeout: pool.idle_timeout,
+        enableKeepAlive: true,
+      });
+      this.logger.info(`Created MySQL pool (max ${pool.max}, sslmode ${sslmode}): ${config.host}:${config.port}/${config.database}`);
+
+      return new MySqlConnection(mysqlPool, mysqlConfig, pool, this.logger);
+    }
+  }
+
+  /**
+   * TLS settings for a connection, with certificates and keys resolved from secrets
+   *
+   * Without sslmode or ssl, PostgreSQL keeps requiring TLS and MySQL keeps connecting without it,
+   * as before sslmode existed, but both now verify the server certificate when they use TLS.
+   */
+  private async resolveTls(type: 'postgres' | 'mysql', config: DatabaseConfig): Promise<DatabaseTls | null> {
+    const legacy = config.ssl ?? type === 'postgres';
+    const mode: SslMode = config.sslmode ?? (legacy ? 'verify-full' : 'disable');
+    if (!SSL_MODES.includes(mode)) {
+      throw new Error(`Unsupported sslmode "${mode}"; use ${SSL_MODES.join(', ')}`);
+    }
+    if (mode === 'disable') {
+      return null;
+    }
+    if (Boolean(config.ssl_cert) !== Boolean(config.ssl_key)) {
+      throw new Error('ssl_cert and ssl_key must be set together');
+    }
+    if (config.ssl_servername && type === 'mysql') {
+      throw new Error('ssl_servername is not supported for MySQL, which verifies the certificate against host');
+    }
+
+    const resolve = (value?: string): Promise<string | undefined> => (value ? this.secretsManager.resolveSecret(value) : Promise.resolve(undefined));
+    return {
+      mode,
+      ca: await resolve(config.ssl_ca),
+      cert: await resolve(config.ssl_cert),
+      key: await resolve(config.ssl_key),
+      servername: config.ssl_servername,
+    };
+  }
+
+  /**
+   * Open database connections across all pools
+   */
+  getConnectionCount(): number {
+    let count = 0;
+    for (const { connection } of this.connections.values()) {
+      count += connection.connectionCount();
+    }
+    return count;
+  }
+
+  private startEviction(): void {
+    if (this.evictionTimer) return;
+    this.evictionTimer = setInterval(() => void this.evictIdle(), EVICTION_INTERVAL);
+    this.evictionTimer.unref();
+  }
 
-      this.logger.info(`Connected to MySQL: ${config.host}:${config.port}/${config.database}`);
+  /**
+   * Close pools that no job has used for their `evict_after`, e.g. after the jobs using them were removed
+   */
+  async evictIdle(now = Date.now()): Promise<void> {
+    for (const [key, { connection, evictAfter, handedOutAt }] of this.connections) {
+      const lastUsed = connection.idleSince();
+      if (evictAfter <= 0 || lastUsed === null) continue;
+      const idleSince = Math.max(lastUsed, handedOutAt);
+      if (now - idleSince < evictAfter) continue;
 
-      return new MySqlConnection(connection);
+      this.connections.delete(key);
+      this.logger.info(`Closing database pool unused for ${Math.round((now - idleSince) / 60000)} minutes: ${key.split(':')[0]}`);
+      try {
+        await connection.close();
+      } catch (error) {
+        this.logger.error('Error closing idle database pool:', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (![...this.connections.values()].some(({ evictAfter }) => evictAfter > 0) && this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
     }
   }
 
@@ -121,13 +690,19 @@ export class DatabaseManager {
       user: urlObj.username,
       password: urlObj.password,
       ssl: urlObj.searchParams.get('ssl') !== 'false',
+      sslmode: (urlObj.searchParams.get('sslmode') as SslMode | null) ?? undefined,
     };
   }
 
   async closeAll(): Promise<void> {
     const promises: Promise<void>[] = [];
 
-    for (const [key, connection] of this.connections) {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
+    for (const [key, { connection }] of this.connections) {
       promises.push(
         connection.close().catch((error) => {
           this.logger.error(`Failed to close connection ${key}:`, error);
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach, setSystemTime } from 'bun:test';
+import { HealthMonitor } from './health';
+
+describe('HealthMonitor', () => {
+  const monitor = new HealthMonitor(5000);
+
+  afterEach(() => {
+    monitor.stop();
+    setSystemTime();
+  });
+
+  it('should report a responsive event loop as alive', () => {
+    monitor.start();
+
+    expect(monitor.liveness()).toMatchObject({ alive: true, event_loop_lag_ms: 0, pid: process.pid });
+  });
+
+  it('should report an overdue tick as lag before it runs', () => {
+    const now = Date.now();
+    monitor.start();
+
+    // A blocked loop: 7 seconds pass without the 1 second tick running
+    setSystemTime(new Date(now + 7000));
+
+    const liveness = monitor.liveness();
+    expect(liveness.alive).toBe(false);
+    expect(liveness.event_loop_lag_ms).toBeGreaterThanOrEqual(5900);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { HttpInput, nextLink } from './http-input';
+import { HttpRequest, InputSchema } from '../types/job-schema';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { OAuth2Client } from '../utils/oauth2';
+import { Logger } from '../utils/logger';
+
+const secretsManager = { resolveSecret: async (value: string) => value } as unknown as ImprovedSecretsManager;
+const logger = new Logger('error');
+const httpInput = new HttpInput(secretsManager, new OAuth2Client(logger), logger);
+
+// 25 records served by a stand-in API that supports every pagination style
+const records = Array.from({ length: 25 }, (_, id) => ({ id }));
+let server: Server<undefined>;
+let requests: string[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(url.pathname + url.search);
+      if (url.pathname === '/echo') {
+        return Response.json({ method: request.method, query: url.search, type: request.headers.get('content-type'), body: await request.json() });
+      }
+      if (url.pathname === '/slow') {
+        await Bun.sleep(200);
+        return Response.json([]);
+      }
+      const param = (name: string, fallback: number): number => Number(url.searchParams.get(name) ?? fallback);
+
+      switch (url.pathname) {
+        case '/pages': {
+          const size = param('per_page', 10);
+          return Response.json({ data: records.slice((param('page', 1) - 1) * size, param('page', 1) * size) });
+        }
+        case '/offsets':
+          return Response.json(records.slice(param('offset', 0), param('offset', 0) + param('limit', 10)));
+        case '/cursors': {
+          const start = param('cursor', 0);
+          const next = start + 10 < records.length ? String(start + 10) : null;
+          return Response.json({ items: records.slice(start, start + 10), meta: { next_cursor: next } });
+        }
+        case '/elsewhere':
+          return Response.json(records.slice(0, 10), { headers: { Link: `<http://localhost:${server.port}/links?page=2>; rel="next"` } });
+        default: {
+          const page = param('page', 1);
+          const headers: Record<string, string> = page < 3 ? { Link: `</links?page=${page + 1}>; rel="next", </links?page=3>; rel="last"` } : {};
+          return Response.json(records.slice((page - 1) * 10, page * 10), { headers });
+        }
+      }
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const fetchAll = (http: Record<string, unknown>): Promise<unknown> => {
+  requests = [];
+  const { http: config } = InputSchema.parse({ http: { ...http, url: `http://127.0.0.1:${server.port}${http.url}` } });
+  return httpInput.fetch(config as HttpRequest);
+};
+
+describe('HttpInput pagination', () => {
+  it('should request page numbers until a short page', async () => {
+    const result = await fetchAll({ url: '/pages', pagination: { type: 'page', items: 'data', page_size: 10 } });
+
+    expect(result).toEqual(records);
+    expect(requests).toEqual(['/pages?page=1&per_page=10', '/pages?page=2&per_page=10', '/pages?page=3&per_page=10']);
+  });
+
+  it('should advance the offset by the records received until an empty page', async () => {
+    const result = await fetchAll({ url: '/offsets?sort=id', pagination: { type: 'offset' } });
+
+    expect(result).toEqual(records);
+    expect(requests.at(-1)).toBe('/offsets?sort=id&offset=25');
+  });
+
+  it('should follow cursors and Link headers', async () => {
+    expect(await fetchAll({ url: '/cursors', pagination: { type: 'cursor', items: 'items', cursor_path: 'meta.next_cursor' } })).toEqual(records);
+    expect(requests).toEqual(['/cursors', '/cursors?cursor=10', '/cursors?cursor=20']);
+
+    expect(await fetchAll({ url: '/links', pagination: { type: 'link' } })).toEqual(records);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should not follow Link headers to another origin', async () => {
+    await expect(fetchAll({ url: '/elsewhere', headers: { Authorization: 'Bearer s3cret' }, pagination: { type: 'link' } })).rejects.toThrow(
+      `links to another origin (http://localhost:${server.port})`
+    );
+    expect(requests).toEqual(['/elsewhere']);
+  });
+
+  it('should stop at max_pages', async () => {
+    const result = await fetchAll({ url: '/pages', pagination: { type: 'page', items: 'data', max_pages: 2, delay: 5 } });
+
+    expect(result).toEqual(records.slice(0, 20));
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should parse rel="next" out of Link headers', () => {
+    expect(nextLink('<https://api.example.com/items?page=2>; rel="next"')).toBe('https://api.example.com/items?page=2');
+    expect(nextLink('<https://a/1>; rel="prev", <https://a/3>; rel="last next"')).toBe('https://a/3');
+    expect(nextLink('<https://a/1>; rel="prev"')).toBeNull();
+    expect(nextLink(null)).toBeNull();
+  });
+});
+
+describe('HttpInput requests', () => {
+  it('should send the method, query parameters and JSON body', async () => {
+    const result = await fetchAll({ url: '/echo?a=1', method: 'PATCH', query_params: { since: '2024-01-01' }, body: { ids: [1, 2] } });
+
+    expect(result).toEqual({ method: 'PATCH', query: '?a=1&since=2024-01-01', type: 'application/json', body: { ids: [1, 2] } });
+  });
+
+  it('should fail a request that exceeds its timeout', async () => {
+    await expect(fetchAll({ url: '/slow', timeout: 50 })).rejects.toThrow('Request timed out after 50ms');
+  });
+});
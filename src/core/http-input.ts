@@ -0,0 +1,233 @@
+import trutoJsonata from '@truto/truto-jsonata';
+import { HttpRequest } from '../types/job-schema';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { Logger } from '../utils/logger';
+import { OAuth2Client } from '../utils/oauth2';
+import { sleep } from '../utils/abort';
+
+type Pagination = NonNullable<HttpRequest['pagination']>;
+
+interface Page {
+  items: unknown[];
+  // Query parameters for the next request, or the URL of the next page for `link` pagination
+  next: Record<string, string> | string | null;
+}
+
+/**
+ * Fetches one request of a job's HTTP input
+ *
+ * Without `pagination` the response body is returned as is (parsed when it is JSON). With it,
+ * pages are requested one after another until the API runs out of them or `max_pages` is
+ * reached, and the records of all pages are returned as one array.
+ */
+export class HttpInput {
+  constructor(private secretsManager: ImprovedSecretsManager, private oauth2: OAuth2Client, private logger: Logger) {}
+
+  async fetch(config: HttpRequest, signal?: AbortSignal): Promise<unknown> {
+    const url = this.withQueryParams(await this.secretsManager.resolveSecret(config.url), await this.resolveRecord(config.query_params));
+    const headers = await this.resolveRecord(config.headers);
+    const body = await this.resolveBody(config, headers);
+    const auth = config.auth ? { ...config.auth } : undefined;
+    if (auth) {
+      for (const field of ['token_url', 'client_id', 'client_secret'] as const) {
+        auth[field] = await this.secretsManager.resolveSecret(auth[field]);
+      }
+    }
+
+    const timeout = config.timeout ? AbortSignal.timeout(config.timeout) : undefined;
+    const requestSignal = timeout && signal ? AbortSignal.any([signal, timeout]) : timeout || signal;
+
+    const request = async (target: string): Promise<Response> => {
+      const init: RequestInit = { method: config.method, headers, body, signal: requestSignal };
+      const response = auth ? await this.oauth2.fetch(auth, target, init) : await fetch(target, init);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return response;
+    };
+
+    try {
+      if (!config.pagination) {
+        const response = await request(url);
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('application/json')) {
+          return await response.json();
+        } else {
+          return await response.text();
+        }
+      }
+
+      return await this.fetchPages(url, config.pagination, request, requestSignal);
+    } catch (error) {
+      // The job's own timeout is reported by the runner
+      if (timeout?.aborted && !signal?.aborted) {
+        throw new Error(`Request timed out after ${config.timeout}ms`);
+      }
+      throw error;
+    }
+  }
+
+  private async fetchPages(url: string, pagination: Pagination, request: (target: string) => Promise<Response>, signal?: AbortSignal): Promise<unknown[]> {
+    const items: unknown[] = [];
+    let target = this.withQueryParams(url, this.firstPageParams(pagination));
+
+    for (let pageNumber = 1; ; pageNumber++) {
+      const response = await request(target);
+      const page = await this.readPage(response, pagination, pageNumber, target);
+      items.push(...page.items);
+
+      if (page.next === null) {
+        this.logger.info(`Fetched ${items.length} records in ${pageNumber} pages from ${url}`);
+        return items;
+      }
+      if (pageNumber >= pagination.max_pages) {
+        this.logger.warn(`Stopped paginating ${url} after max_pages (${pagination.max_pages}) with ${items.length} records; more pages are available`);
+        return items;
+      }
+
+      target = typeof page.next === 'string' ? page.next : this.withQueryParams(url, page.next);
+      if (pagination.delay > 0) {
+        await sleep(pagination.delay, signal);
+      }
+    }
+  }
+
+  private firstPageParams(pagination: Pagination): Record<string, string> {
+    const params: Record<string, string> = {};
+    switch (pagination.type) {
+      case 'page':
+        params[pagination.page_param] = String(pagination.start_page);
+        break;
+      case 'offset':
+        params[pagination.offset_param] = '0';
+        break;
+    }
+
+    if (pagination.page_size !== undefined) {
+      params[pagination.type === 'offset' ? pagination.limit_param : pagination.size_param] = String(pagination.page_size);
+    }
+    return params;
+  }
+
+  private async readPage(response: Response, pagination: Pagination, pageNumber: number, target: string): Promise<Page> {
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error(`Page ${pageNumber} (${target}) is not valid JSON; paginated inputs need JSON responses`);
+    }
+
+    const items = toArray(pagination.items ? await trutoJsonata(pagination.items).evaluate(body) : body);
+    const params = Object.fromEntries(new URL(target).searchParams);
+
+    switch (pagination.type) {
+      case 'page': {
+        // A short or empty page is the last one
+        if (items.length === 0 || (pagination.page_size !== undefined && items.length < pagination.page_size)) {
+          return { items, next: null };
+        }
+        return { items, next: { ...params, [pagination.page_param]: String(Number(params[pagination.page_param]) + 1) } };
+      }
+
+      case 'offset': {
+        if (items.length === 0 || (pagination.page_size !== undefined && items.length < pagination.page_size)) {
+          return { items, next: null };
+        }
+        return { items, next: { ...params, [pagination.offset_param]: String(Number(params[pagination.offset_param]) + items.length) } };
+      }
+
+      case 'cursor': {
+        const cursor = await trutoJsonata(pagination.cursor_path!).evaluate(body);
+        if (cursor === undefined || cursor === null || cursor === '' || cursor === false) {
+          return { items, next: null };
+        }
+        return { items, next: { ...params, [pagination.cursor_param]: String(cursor) } };
+      }
+
+      default: {
+        const next = nextLink(response.headers.get('link'));
+        if (!next) {
+          return { items, next: null };
+        }
+
+        // The request's headers and token go with every page, so they must not leak to another host
+        const url = new URL(next, target);
+        if (url.origin !== new URL(target).origin) {
+          throw new Error(`Page ${pageNumber} (${target}) links to another origin (${url.origin}); link pagination only follows links on the same origin`);
+        }
+        return { items, next: url.toString() };
+      }
+    }
+  }
+
+  private withQueryParams(url: string, params: Record<string, string>): string {
+    if (Object.keys(params).length === 0) {
+      return url;
+    }
+
+    const target = new URL(url);
+    for (const [key, value] of Object.entries(params)) {
+      target.searchParams.set(key, value);
+    }
+    return target.toString();
+  }
+
+  // Headers and query parameters: a map of values or a secret holding a JSON object
+  private async resolveRecord(config?: string | Record<string, string>): Promise<Record<string, string>> {
+    const record: Record<string, string> = {};
+    if (config) {
+      if (typeof config === 'string') {
+        const resolved = await this.secretsManager.resolveSecret(config);
+        try {
+          Object.assign(record, JSON.parse(resolved));
+        } catch {
+          // If not valid JSON, ignore it
+        }
+      } else {
+        for (const [key, value] of Object.entries(config)) {
+          record[key] = await this.secretsManager.resolveSecret(value);
+        }
+      }
+    }
+    return record;
+  }
+
+  private async resolveBody(config: HttpRequest, headers: Record<string, string>): Promise<string | undefined> {
+    if (config.body === undefined || config.method === 'GET') {
+      return undefined;
+    }
+    if (typeof config.body === 'string') {
+      return this.secretsManager.resolveSecret(config.body);
+    }
+
+    // Like output bodies, top-level string values may be secret references
+    const body: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(config.body)) {
+      body[key] = typeof value === 'string' ? await this.secretsManager.resolveSecret(value) : value;
+    }
+    if (!Object.keys(headers).some((header) => header.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+    return JSON.stringify(body);
+  }
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * The rel="next" target of an RFC 8288 Link header, e.g. `<https://api/items?page=2>; rel="next"`
+ */
+export function nextLink(header: string | null): string | null {
+  if (!header) return null;
+
+  for (const link of header.split(/,(?=\s*<)/)) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(link);
+    if (match && /;\s*rel="?([^";]*\s)?next(\s[^";]*)?"?\s*(;|$)/i.test(match[2])) {
+      return match[1];
+    }
+  }
+  return null;
+}
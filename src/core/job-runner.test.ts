@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, setSystemTime } from 'bun:test';
+import type { Server } from 'bun';
+import { Database } from 'bun:sqlite';
+import type { Cron } from 'croner';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobRunner, JobExecution } from './job-runner';
+import { PostgresServer } from './testing/postgres-server';
+import { Job, JobSchema } from '../types/job-schema';
+import { Logger } from '../utils/logger';
+
+// Stand-in for a webhook output that records every body it receives; /slow never answers
+let server: Server<undefined>;
+let received: unknown[] = [];
+let aborted: string[] = [];
+let dir: string;
+let database: string;
+let runner: JobRunner;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'querybird-runner-'));
+  database = join(dir, 'app.db');
+
+  const db = new Database(database);
+  db.run('CREATE TABLE events (id INTEGER PRIMARY KEY, kind TEXT)');
+  db.run("INSERT INTO events (kind) VALUES ('open'), ('close'), ('open')");
+  db.close();
+
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (pathname.startsWith('/slow')) {
+        await new Promise((resolve) => request.signal.addEventListener('abort', resolve));
+        aborted.push(pathname);
+        return new Response(null, { status: 504 });
+      }
+      received.push(await request.json());
+      return new Response(null, { status: 204 });
+    },
+  });
+});
+
+// Stand-in PostgreSQL server that records each statement
+const postgres = new PostgresServer();
+
+afterAll(async () => {
+  server.stop(true);
+  postgres.close();
+  await runner.stop();
+  await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  received = [];
+  aborted = [];
+  await runner?.stop();
+  await rm(join(dir, 'state'), { recursive: true, force: true });
+  runner = createRunner();
+});
+
+const createRunner = (): JobRunner =>
+  new JobRunner({
+    configDir: join(dir, 'configs'),
+    secretsFile: join(dir, 'secrets.json'),
+    logger: new Logger('error'),
+    watchSecrets: false,
+    watermarksDir: join(dir, 'state', 'watermarks'),
+    outboxDir: join(dir, 'state', 'outbox'),
+    outboxInterval: 0,
+    history: { file: join(dir, 'state', 'history.db') },
+  });
+
+const job = (overrides: Record<string, unknown> = {}) =>
+  JobSchema.parse({
+    id: 'events-export',
+    name: 'Events export',
+    schedule: '0 * * * *',
+    input: { sqlite: { name: 'app', connection_info: database, sql: [{ name: 'events', sql: 'SELECT id, kind FROM events WHERE id > {{watermark}} ORDER BY id' }] } },
+    transform: 'app.events',
+    watermark: { column: 'id', initial_value: '0' },
+    outputs: [{ type: 'webhook', endpoint: `http://127.0.0.1:${server.port}/events`, retryCount: 0 }],
+    ...overrides,
+  });
+
+describe('JobSchema stream', () => {
+  it('should reject stream batch sizes that are not positive integers', () => {
+    for (const batchSize of [0, -5, 2.5, 'abc']) {
+      expect(() => job({ stream: { batch_size: batchSize } })).toThrow('stream.batch_size must be a positive integer');
+    }
+    expect(job({ stream: { batch_size: '500' } }).stream).toEqual({ batch_size: 500 });
+  });
+});
+
+describe('JobRunner watermarks', () => {
+  it('should complete without sending anything when there are no rows past the watermark', async () => {
+    const first = await runner.executeJob(job());
+    expect(first.status).toBe('completed');
+    expect(first.result).toEqual({ recordCount: 3, watermark: '3' });
+
+    const second = await runner.executeJob(job());
+    expect(second.status).toBe('completed');
+    expect(second.result).toEqual({ recordCount: 0, watermark: '3' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should do the same for streamed jobs', async () => {
+    await runner.executeJob(job({ stream: { batch_size: 2 } }));
+    const second = await runner.executeJob(job({ stream: { batch_size: 2 } }));
+
+    expect(second.status).toBe('completed');
+    expect(second.result).toEqual({ recordCount: 0, watermark: '3' });
+  });
+});
+
+describe('JobRunner query params', () => {
+  const paramsJob = () =>
+    job({
+      watermark: undefined,
+      input: {
+        sqlite: {
+          name: 'app',
+          connection_info: database,
+          sql: [
+            {
+              name: 'run',
+              sql: 'SELECT {{run_id}} AS run_id, {{job_id}} AS job_id, {{started}} AS started_at, {{since}} AS last_success_at, {{kind}} AS kind FROM events WHERE kind = {{kind}} LIMIT 1',
+              params: { run_id: '!run run_id', job_id: '!run job_id', started: '!run started_at', since: '!run last_success_at', kind: 'close' },
+            },
+          ],
+        },
+      },
+      transform: 'app.run',
+    });
+
+  it('should bind run values and literals as query params', async () => {
+    const first = await runner.executeJob(paramsJob());
+    const second = await runner.executeJob(paramsJob());
+
+    expect(received).toEqual([
+      [{ run_id: first.runId, job_id: 'events-export', started_at: first.startedAt.toISOString(), last_success_at: null, kind: 'close' }],
+      [{ run_id: second.runId, job_id: 'events-export', started_at: second.startedAt.toISOString(), last_success_at: first.startedAt.toISOString(), kind: 'close' }],
+    ]);
+  });
+
+  it('should reject a param named watermark', () => {
+    const input = { sqlite: { name: 'app', connection_info: database, sql: [{ name: 'events', sql: 'SELECT {{watermark}}', params: { watermark: '0' } }] } };
+    expect(() => job({ input })).toThrow("is reserved for the job's watermark");
+  });
+
+  it('should bind last_success_at from history after a restart', async () => {
+    const first = await runner.executeJob(paramsJob());
+    await runner.stop();
+    runner = createRunner();
+
+    await runner.executeJob(paramsJob());
+
+    expect((received[1] as Array<Record<string, unknown>>)[0].last_success_at).toBe(first.startedAt.toISOString());
+  });
+});
+
+describe('JobRunner timeouts', () => {
+  it('should abort a slow output and not commit the watermark', async () => {
+    const execution = await runner.executeJob(
+      job({ timeout: 200, outputs: [{ type: 'webhook', endpoint: `http://127.0.0.1:${server.port}/slow/events`, retryCount: 0 }] })
+    );
+
+    expect(execution.status).toBe('timed_out');
+    expect(execution.errorStage).toBe('output');
+    await Bun.sleep(100);
+    expect(aborted).toEqual(['/slow/events']);
+    expect(existsSync(join(dir, 'state', 'watermarks', 'events-export.json'))).toBe(false);
+
+    // The next run picks up the same rows
+    expect((await runner.executeJob(job())).result).toEqual({ recordCount: 3, watermark: '3' });
+  });
+
+  it('should abort a slow input request', async () => {
+    const execution = await runner.executeJob(
+      job({ timeout: 200, input: { http: { url: `http://127.0.0.1:${server.port}/slow/source` } }, transform: 'http' })
+    );
+
+    expect(execution.status).toBe('timed_out');
+    expect(execution.errorStage).toBe('input');
+    await Bun.sleep(100);
+    expect(aborted).toEqual(['/slow/source']);
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('JobRunner read-only queries', () => {
+  beforeAll(async () => {
+    await postgres.listen();
+  });
+
+  beforeEach(() => {
+    postgres.reset();
+  });
+
+  const postgresJob = (connection: Record<string, unknown>, sql: Array<Record<string, unknown>>) =>
+    job({
+      watermark: undefined,
+      input: {
+        postgres: {
+          name: 'pg',
+          connection_info: postgres.url,
+          pool: { validate: false },
+          sql,
+          ...connection,
+        },
+      },
+      transform: 'pg',
+    });
+
+  it('should reject writes on SQLite by default', async () => {
+    const execution = await runner.executeJob(
+      job({ watermark: undefined, input: { sqlite: { name: 'app', connection_info: database, sql: [{ name: 'purge', sql: 'DELETE FROM events RETURNING id' }] } }, transform: 'app.purge' })
+    );
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error?.message).toContain('readonly');
+    expect(new Database(database, { readonly: true }).query('SELECT COUNT(*) AS count FROM events').get()).toEqual({ count: 3 });
+  });
+
+  it('should reject writes on PostgreSQL by default', async () => {
+    const execution = await runner.executeJob(postgresJob({}, [{ name: 'purge', sql: 'DELETE FROM events RETURNING 1 AS one' }]));
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error?.message).toBe('cannot execute DELETE in a read-only transaction');
+    expect(postgres.statements).toEqual(['BEGIN READ ONLY', 'DELETE FROM events RETURNING 1 AS one', 'ROLLBACK']);
+  });
+
+  it("should let a query's read_only and statement_timeout override its connection's", async () => {
+    const execution = await runner.executeJob(
+      postgresJob({ statement_timeout: 5000 }, [
+        { name: 'count', sql: 'SELECT 1 AS one' },
+        { name: 'purge', sql: 'DELETE FROM events RETURNING 1 AS one', read_only: false, statement_timeout: 100 },
+      ])
+    );
+
+    expect(execution.status).toBe('completed');
+    expect(postgres.statements).toEqual([
+      'BEGIN READ ONLY',
+      'SET LOCAL statement_timeout = 5000',
+      'SELECT 1 AS one',
+      'COMMIT',
+      'BEGIN',
+      'SET LOCAL statement_timeout = 100',
+      'DELETE FROM events RETURNING 1 AS one',
+      'COMMIT',
+    ]);
+  });
+
+  it('should let a read-write connection keep a read-only query', async () => {
+    await runner.executeJob(postgresJob({ read_only: false }, [{ name: 'count', sql: 'SELECT 1 AS one', read_only: true }, { name: 'purge', sql: 'DELETE FROM events RETURNING 1 AS one' }]));
+
+    expect(postgres.statements).toEqual(['BEGIN READ ONLY', 'SELECT 1 AS one', 'COMMIT', 'DELETE FROM events RETURNING 1 AS one']);
+  });
+});
+
+describe('JobRunner schedules', () => {
+  it('should pass the occurrence a late cron run was due for as scheduled_at', async () => {
+    const internals = runner as unknown as { scheduleJob(job: Job): void; scheduledJobs: Map<string, Cron> };
+    const scheduled: Array<Date | undefined> = [];
+    runner.executeJob = async (_job, _trigger, _runId, scheduledAt) => {
+      scheduled.push(scheduledAt);
+      return {} as JobExecution;
+    };
+    internals.scheduleJob(job({ schedule: '*/5 * * * * *' }));
+
+    // Fired two seconds after the 00:00:05 occurrence, as after an event-loop stall
+    setSystemTime(new Date('2026-01-01T00:00:07.400Z'));
+    await internals.scheduledJobs.get('events-export')?.trigger();
+    setSystemTime();
+
+    expect(scheduled).toEqual([new Date('2026-01-01T00:00:05.000Z')]);
+  });
+});
+
+describe('JobRunner readiness', () => {
+  const yaml = (id: string, connectionInfo: string): string => `
+id: ${id}
+name: ${id}
+schedule: '0 * * * *'
+transform: 'app.events'
+input:
+  sqlite:
+    name: app
+    connection_info: ${connectionInfo}
+    sql:
+      - name: events
+        sql: SELECT id FROM events
+outputs:
+  - type: file
+    path: events.json
+`;
+
+  beforeEach(async () => {
+    await rm(join(dir, 'configs'), { recursive: true, force: true });
+    await mkdir(join(dir, 'configs'));
+  });
+
+  afterAll(async () => {
+    await rm(join(dir, 'configs'), { recursive: true, force: true });
+  });
+
+  it('should be ready once every config is loaded and scheduled', async () => {
+    await writeFile(join(dir, 'configs', 'events.yml'), yaml('events-export', database));
+    await runner.start();
+
+    const report = await runner.checkReadiness();
+
+    expect(report.ready).toBe(true);
+    expect(report.checks).toEqual({
+      configs: { ok: true, detail: '1 jobs loaded' },
+      secrets: { ok: true },
+      scheduler: { ok: true, detail: '1 jobs scheduled' },
+    });
+  });
+
+  it('should report invalid configs and unreachable databases', async () => {
+    await writeFile(join(dir, 'configs', 'events.yml'), yaml('events-export', join(dir, 'missing.db')));
+    await writeFile(join(dir, 'configs', 'broken.yml'), 'id: broken\nschedule: [');
+    await runner.start();
+
+    const report = await runner.checkReadiness({ probeDatabases: true });
+
+    expect(report.ready).toBe(false);
+    expect(report.checks.configs.ok).toBe(false);
+    expect(Object.keys(report.checks.configs.detail as Record<string, string>)).toEqual([join(dir, 'configs', 'broken.yml')]);
+    expect(report.checks.scheduler.ok).toBe(true);
+    expect(report.checks.databases.ok).toBe(false);
+    expect(Object.keys(report.checks.databases.detail as Record<string, string>)).toEqual(['events-export/app']);
+  });
+});
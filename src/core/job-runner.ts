@@ -1,12 +1,28 @@
 import { Cron } from 'croner';
 import trutoJsonata from '@truto/truto-jsonata';
-import { Job, Input, Output } from '../types/job-schema';
+import { Job, Input, Output, DatabaseInput, HttpRequest, SqlQuery, RUN_VALUES } from '../types/job-schema';
 import { ConfigWatcher } from './config-watcher';
 import { SecretsWatcher } from './secrets-watcher';
 import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
 import { Logger } from '../utils/logger';
-import { DatabaseManager } from './database-manager';
+import { DatabaseManager, DatabaseConnection, DatabaseType } from './database-manager';
 import { OutputManager } from './output-manager';
+import { OutputStream } from './output-stream';
+import { HttpInput } from './http-input';
+import { Notifier } from './notifier';
+import { Outbox } from './outbox';
+import { WatermarkStore, maxWatermark } from './watermark-store';
+import { RunHistory, RunHistoryOptions, RunRecord, RunStage, RunTrigger, OutputRunRecord } from './run-history';
+import { JobStatusStore, RunSummary } from './job-status-store';
+import { HealthCheckResult, ReadinessReport } from './health';
+import { dbConnections, jobDurationSeconds, jobExecutionsTotal, jobsRunning, queryRows, secretsReloadsTotal, stageDurationSeconds } from './metrics';
+import { compileSql } from '../utils/sql-params';
+import { getQueryBirdPaths } from '../utils/path-resolver';
+import { abortable } from '../utils/abort';
+import { OAuth2Client } from '../utils/oauth2';
+import { randomUUID } from 'crypto';
+import { basename, extname } from 'path';
+import { fileURLToPath } from 'url';
 import _ from 'lodash';
 
 export interface JobRunnerOptions {
@@ -16,15 +32,69 @@ export interface JobRunnerOptions {
   encryptionPassword?: string;
   maxConcurrentJobs?: number;
   watchSecrets?: boolean;
+  watermarksDir?: string;
+  history?: Partial<RunHistoryOptions>;
+  // When set, compact per-job status files are written here for the CLI
+  statusDir?: string;
+  outboxDir?: string;
+  // Milliseconds between background redeliveries of outbox entries (0 disables)
+  outboxInterval?: number;
+}
+
+export interface JobSummary {
+  id: string;
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  paused: boolean;
+  running: boolean;
+  nextRun?: string;
 }
 
 export interface JobExecution {
+  runId: string;
   jobId: string;
+  trigger: RunTrigger;
   startedAt: Date;
-  status: 'running' | 'completed' | 'failed';
-  result?: { recordCount?: number };
+  // The schedule occurrence the run fired for; the start time for manual runs
+  scheduledAt: Date;
+  status: 'running' | 'completed' | 'failed' | 'timed_out';
+  result?: { recordCount?: number; watermark?: string };
   error?: Error;
+  errorStage?: RunStage;
   duration?: number;
+  stages: Partial<Record<RunStage, number>>;
+  outputs: OutputRunRecord[];
+}
+
+// Per-execution state threaded through the input stage
+interface ExecutionContext {
+  jobId: string;
+  // Aborted when the job exceeds its timeout or the runner shuts down
+  signal: AbortSignal;
+  stage?: RunStage;
+  // Values for "!run <name>" query params
+  run: Record<(typeof RUN_VALUES)[number], unknown>;
+  watermark?: {
+    column: string;
+    current: string;
+    next?: string;
+    // Set when a database failed, so rows it would have returned are not skipped next run
+    incomplete?: boolean;
+  };
+}
+
+// The occurrence a croner callback fired for. currentRun() is when it fired, which trails the
+// occurrence when the event loop stalls; occurrences fall on whole seconds, so step back to the
+// latest one at or before it.
+function scheduledRun(cron: Cron): Date {
+  const firedAt = cron.currentRun() ?? new Date();
+  const start = Math.floor(firedAt.getTime() / 1000) * 1000;
+  for (let at = start; ; at -= 1000) {
+    const next = cron.nextRun(new Date(at - 1000));
+    if (!next) return new Date(start);
+    if (next.getTime() === at) return next;
+  }
 }
 
 export class JobRunner {
@@ -33,9 +103,26 @@ export class JobRunner {
   private secretsManager: ImprovedSecretsManager;
   private dbManager: DatabaseManager;
   private outputManager: OutputManager;
+  private httpInput: HttpInput;
+  private notifier: Notifier;
+  private watermarkStore: WatermarkStore;
+  private outbox: Outbox;
+  private outboxInterval: number;
+  private outboxTimer: ReturnType<typeof setInterval> | null = null;
+  private redelivering = false;
+  private runHistory: RunHistory | null = null;
+  private statusStore: JobStatusStore | null = null;
+  private knownJobIds = new Set<string>();
+  private pausedJobs = new Set<string>();
+  // Final status of each job's latest run, used to detect recoveries
+  private lastStatuses = new Map<string, JobExecution['status']>();
+  private lastSuccesses = new Map<string, Date>();
   private logger: Logger;
   private scheduledJobs = new Map<string, Cron>();
   private runningJobs = new Map<string, JobExecution>();
+  private executionControllers = new Map<string, AbortController>();
+  // Notifications still being sent, awaited on shutdown
+  private notifications = new Set<Promise<void>>();
   private maxConcurrentJobs: number;
   private watchSecrets: boolean;
 
@@ -47,7 +134,28 @@ export class JobRunner {
     this.secretsManager = new ImprovedSecretsManager(options.secretsFile, options.encryptionPassword);
 
     this.dbManager = new DatabaseManager(this.secretsManager, this.logger);
-    this.outputManager = new OutputManager(this.secretsManager, this.logger);
+    // The HTTP input and outputs share cached OAuth2 tokens
+    const oauth2 = new OAuth2Client(this.logger);
+    this.httpInput = new HttpInput(this.secretsManager, oauth2, this.logger);
+    this.outputManager = new OutputManager(this.secretsManager, this.logger, undefined, oauth2);
+    this.notifier = new Notifier(this.secretsManager, this.outputManager, this.logger);
+    dbConnections.collect(() => this.dbManager.getConnectionCount());
+    jobsRunning.collect(() => this.runningJobs.size);
+
+    this.watermarkStore = new WatermarkStore(options.watermarksDir || getQueryBirdPaths().watermarks, this.logger);
+    this.outbox = new Outbox(options.outboxDir || getQueryBirdPaths().outbox, this.logger);
+    this.outboxInterval = options.outboxInterval ?? 60000;
+
+    if (options.statusDir) {
+      this.statusStore = new JobStatusStore(options.statusDir, this.logger);
+    }
+
+    try {
+      this.runHistory = new RunHistory({ ...options.history, file: options.history?.file || getQueryBirdPaths().historyFile }, this.logger);
+    } catch (error) {
+      // Jobs still run without history; only the record of them is lost
+      this.logger.error('Failed to open run history, runs will not be recorded:', { error: error instanceof Error ? error.message : String(error) });
+    }
 
     this.configWatcher = new ConfigWatcher({
       configDir: options.configDir,
@@ -74,9 +182,34 @@ export class JobRunner {
       await this.secretsWatcher.start();
     }
 
+    await this.outbox.recover();
+    if (this.outboxInterval > 0) {
+      this.outboxTimer = setInterval(() => void this.redeliverOutbox(), this.outboxInterval);
+      this.outboxTimer.unref();
+    }
+
     this.logger.info('Job runner started');
   }
 
+  /**
+   * Retry outbox entries whose next attempt is due; runs in the background while the runner is started
+   */
+  async redeliverOutbox(): Promise<void> {
+    if (this.redelivering) return;
+    this.redelivering = true;
+
+    try {
+      const results = await this.outbox.redeliver(this.outputManager, { dueOnly: true });
+      if (results.delivered + results.failed > 0) {
+        this.logger.info(`Outbox redelivery: ${results.delivered} delivered, ${results.failed} failed`);
+      }
+    } catch (error) {
+      this.logger.error('Outbox redelivery failed:', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.redelivering = false;
+    }
+  }
+
   private handleJobsChange(jobs: Map<string, Job>): void {
     // Stop removed jobs
     for (const [jobId] of this.scheduledJobs) {
@@ -85,12 +218,20 @@ export class JobRunner {
       }
     }
 
+    for (const jobId of this.knownJobIds) {
+      if (!jobs.has(jobId)) {
+        void this.statusStore?.remove(jobId);
+      }
+    }
+    this.knownJobIds = new Set(jobs.keys());
+
     // Start/update jobs
     for (const [jobId, job] of jobs) {
       if (job.enabled) {
         this.scheduleJob(job);
       } else {
         this.stopJob(jobId);
+        void this.statusStore?.update(jobId, { name: job.name, schedule: job.schedule, enabled: false, next_run: undefined });
       }
     }
   }
@@ -100,12 +241,22 @@ export class JobRunner {
     this.stopJob(job.id);
 
     try {
-      const cronJob = new Cron(job.schedule, { timezone: 'UTC' }, async () => {
-        await this.executeJob(job);
+      // Paused jobs stay paused when their config is reloaded
+      const paused = this.pausedJobs.has(job.id);
+      const cronJob = new Cron(job.schedule, { timezone: 'UTC', paused }, async (self: Cron) => {
+        await this.executeJob(job, 'cron', randomUUID(), scheduledRun(self));
       });
 
       this.scheduledJobs.set(job.id, cronJob);
-      this.logger.info(`Scheduled job: ${job.id} with schedule: ${job.schedule}`);
+      this.logger.info(`Scheduled job: ${job.id} with schedule: ${job.schedule}${paused ? ' (paused)' : ''}`);
+
+      void this.statusStore?.update(job.id, {
+        name: job.name,
+        schedule: job.schedule,
+        enabled: true,
+        paused,
+        next_run: paused ? undefined : cronJob.nextRun()?.toISOString(),
+      });
     } catch (error) {
       this.logger.error(`Failed to schedule job ${job.id}:`, { error: error instanceof Error ? error.message : String(error) });
     }
@@ -120,7 +271,7 @@ export class JobRunner {
     }
   }
 
-  async executeJob(job: Job): Promise<JobExecution> {
+  async executeJob(job: Job, trigger: RunTrigger = 'manual', runId: string = randomUUID(), scheduledAt?: Date): Promise<JobExecution> {
     // Check if job is already running
     if (this.runningJobs.has(job.id)) {
       this.logger.warn(`Job ${job.id} is already running, skipping this execution`);
@@ -132,68 +283,320 @@ export class JobRunner {
       throw new Error(`Max concurrent jobs limit reached: ${this.maxConcurrentJobs}`);
     }
 
+    const startedAt = new Date();
     const execution: JobExecution = {
+      runId,
       jobId: job.id,
-      startedAt: new Date(),
+      trigger,
+      startedAt,
+      scheduledAt: scheduledAt ?? startedAt,
       status: 'running',
+      stages: {},
+      outputs: [],
     };
 
+    const previousStatus = this.previousStatus(job.id);
+    const lastSuccessAt = this.lastSuccessAt(job.id);
     this.runningJobs.set(job.id, execution);
-    this.logger.info(`Starting job execution: ${job.id}`);
+    this.logger.info(`Starting job execution: ${job.id} (run ${execution.runId}, ${trigger})`);
+    this.recordHistory(execution, 'start');
+
+    const controller = new AbortController();
+    this.executionControllers.set(job.id, controller);
+
+    // A timeout of 0 disables the limit
+    let timedOut = false;
+    const timer =
+      job.timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort(new Error(`Job timed out after ${job.timeout}ms`));
+          }, job.timeout)
+        : null;
+
+    const context: ExecutionContext = {
+      jobId: job.id,
+      signal: controller.signal,
+      run: {
+        job_id: job.id,
+        run_id: runId,
+        started_at: execution.startedAt,
+        scheduled_at: execution.scheduledAt,
+        last_success_at: lastSuccessAt ?? null,
+      },
+    };
 
     try {
       const startTime = Date.now();
 
-      // Execute input stage
-      const inputData = await this.executeInput(job.input, job.id);
+      if (job.watermark) {
+        const current = await this.watermarkStore.get(job.id, job.watermark);
+        context.watermark = { column: job.watermark.column, current };
+        this.logger.debug(`Using watermark for job ${job.id}: ${job.watermark.column} > ${current}`);
+      }
 
-      // Apply transformation
-      const transformedData = await this.applyTransformation(inputData, job.transform);
+      // The whole input -> transform -> output pipeline shares the job timeout
+      const pipeline = job.stream ? this.runStreamingPipeline(job, context, execution) : this.runPipeline(job, context, execution);
+      const recordCount = await abortable(pipeline, controller.signal);
 
-      // Validate transformed data is not empty
-      if (_.isEmpty(transformedData)) {
-        this.logger.warn(`No valid data after transformation for job ${job.id}; skipping outputs`);
-        throw new Error('No valid data after transformation');
+      // Only advance the watermark once every output has accepted the data
+      if (job.watermark && context.watermark?.next !== undefined && context.watermark.next !== context.watermark.current) {
+        if (context.watermark.incomplete) {
+          this.logger.warn(`Not advancing watermark for job ${job.id}: one or more databases failed`);
+        } else {
+          await this.watermarkStore.commit(job.id, job.watermark, context.watermark.next);
+        }
       }
 
-      // Send to outputs
-      await this.sendToOutputs(transformedData, job.outputs);
-
       const duration = Date.now() - startTime;
       execution.status = 'completed';
       execution.duration = duration;
-      execution.result = { recordCount: Array.isArray(transformedData) ? transformedData.length : transformedData ? 1 : 0 };
+      execution.result = {
+        recordCount,
+        watermark: context.watermark?.next ?? context.watermark?.current,
+      };
 
       this.logger.info(`Job ${job.id} completed successfully in ${duration}ms`);
     } catch (error) {
-      execution.status = 'failed';
+      execution.status = timedOut ? 'timed_out' : 'failed';
       execution.error = error instanceof Error ? error : new Error(String(error));
+      execution.errorStage = context.stage;
       execution.duration = Date.now() - execution.startedAt.getTime();
 
-      this.logger.error(`Job ${job.id} failed:`, { error: execution.error?.message || 'Unknown error' });
+      if (timedOut) {
+        this.logger.error(`Job ${job.id} timed out after ${job.timeout}ms, in-flight work was cancelled`);
+      } else {
+        this.logger.error(`Job ${job.id} failed:`, { error: execution.error?.message || 'Unknown error' });
+      }
     } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      this.executionControllers.delete(job.id);
       this.runningJobs.delete(job.id);
+      jobExecutionsTotal.inc({ job_id: job.id, status: execution.status });
+      jobDurationSeconds.observe((execution.duration ?? 0) / 1000, { job_id: job.id });
+      this.recordHistory(execution, 'finish');
+      await this.recordStatus(execution);
+      this.lastStatuses.set(job.id, execution.status);
+      if (execution.status === 'completed') {
+        this.lastSuccesses.set(job.id, execution.startedAt);
+      }
+      // Alerts are sent in the background so a slow channel doesn't delay the run's result
+      const notification = this.notifier.notify(job, execution, previousStatus).finally(() => this.notifications.delete(notification));
+      this.notifications.add(notification);
     }
 
     return execution;
   }
 
-  private async executeInput(input: Input, jobId: string): Promise<unknown> {
+  private async runPipeline(job: Job, context: ExecutionContext, execution: JobExecution): Promise<number> {
+    // Execute input stage
+    let stageStart = Date.now();
+    context.stage = 'input';
+    const inputData = await this.executeInput(job.input, context);
+    execution.stages.input = Date.now() - stageStart;
+    stageDurationSeconds.observe(execution.stages.input / 1000, { job_id: job.id, stage: 'input' });
+
+    // Apply transformation
+    stageStart = Date.now();
+    context.stage = 'transform';
+    const transformedData = await abortable(this.applyTransformation(inputData, job.transform), context.signal);
+
+    execution.stages.transform = Date.now() - stageStart;
+    stageDurationSeconds.observe(execution.stages.transform / 1000, { job_id: job.id, stage: 'transform' });
+
+    // Validate transformed data is not empty
+    if (_.isEmpty(transformedData)) {
+      if (this.nothingNew(job, context)) {
+        return 0;
+      }
+      this.logger.warn(`No valid data after transformation for job ${job.id}; skipping outputs`);
+      throw new Error('No valid data after transformation');
+    }
+
+    // Send to outputs
+    stageStart = Date.now();
+    context.stage = 'output';
+    await this.sendToOutputs(transformedData, job.outputs, context, execution);
+    execution.stages.output = Date.now() - stageStart;
+    stageDurationSeconds.observe(execution.stages.output / 1000, { job_id: job.id, stage: 'output' });
+
+    context.stage = undefined;
+    return Array.isArray(transformedData) ? transformedData.length : 1;
+  }
+
+  /**
+   * Streaming variant of runPipeline for result sets too large to hold in memory
+   *
+   * Rows are read in batches of `stream.batch_size`; each batch is transformed on
+   * its own (with the same input shape as a full run) and written to every output
+   * before the next one is fetched. Stage durations are the time spent in each
+   * stage summed over all batches.
+   */
+  private async runStreamingPipeline(job: Job, context: ExecutionContext, execution: JobExecution): Promise<number> {
+    const [{ type, config }] = this.databaseInputs(job.input);
+    const [query] = config.sql;
+    const batchSize = job.stream!.batch_size;
+
+    context.stage = 'input';
+    const connectionInfo = await this.secretsManager.resolveSecret(config.connection_info);
+    const connection = await this.dbManager.getConnection(type, connectionInfo, config.pool);
+    const connectionDetails = this.parseConnectionInfo(type, connectionInfo);
+    const compiled = compileSql(query.sql, await this.queryValues(context, query), type);
+
+    const stages = { input: 0, transform: 0, output: 0 };
+    const outputContext = { jobId: context.jobId, runId: execution.runId, startedAt: execution.startedAt };
+    const streams: Array<{ stream?: OutputStream; record: OutputRunRecord; start: number }> = job.outputs.map((output, index) => ({
+      record: { index, type: output.type, target: this.outputTarget(output), status: 'completed', recordCount: 0, duration: 0 },
+      start: 0,
+    }));
+
+    const fail = async (entry: (typeof streams)[number], error: unknown): Promise<void> => {
+      entry.record.status = 'failed';
+      entry.record.recordCount = 0;
+      entry.record.error = error instanceof Error ? error.message : String(error);
+      await entry.stream?.abort().catch(() => undefined);
+    };
+    const active = (): Array<(typeof streams)[number]> => streams.filter((entry) => entry.record.status === 'completed');
+
+    let rowCount = 0;
+    let recordCount = 0;
+    let stageStart = Date.now();
+
+    try {
+      for await (const rows of connection.stream(compiled.sql, compiled.params, { signal: context.signal, batchSize, ...this.queryOptions(config, query) })) {
+        stages.input += Date.now() - stageStart;
+        rowCount += rows.length;
+
+        if (context.watermark) {
+          context.watermark.next = maxWatermark(rows, context.watermark.column, context.watermark.next ?? context.watermark.current);
+        }
+
+        stageStart = Date.now();
+        context.stage = 'transform';
+        const input = {
+          connections_info: { [config.name]: connectionDetails },
+          [config.name]: { [query.name]: rows, connection_info: connectionDetails },
+        };
+        const transformed = await this.applyTransformation(input, job.transform);
+        stages.transform += Date.now() - stageStart;
+
+        stageStart = Date.now();
+        context.stage = 'output';
+        const records = _.isEmpty(transformed) ? [] : Array.isArray(transformed) ? transformed : [transformed];
+        if (records.length > 0) {
+          recordCount += records.length;
+
+          // Outputs are opened on the first records, so a run with nothing to send leaves no trace
+          await Promise.all(
+            active().map(async (entry) => {
+              try {
+                if (!entry.stream) {
+                  entry.start = Date.now();
+                  entry.stream = await this.outputManager.openStream(job.outputs[entry.record.index], context.signal, outputContext);
+                }
+                await entry.stream.write(records);
+                entry.record.recordCount += records.length;
+              } catch (error) {
+                // Cancellation fails the run as a whole, not just this output
+                context.signal.throwIfAborted();
+                this.logger.error(`Streamed output ${entry.record.index} of job ${job.id} failed:`, { error: error instanceof Error ? error.message : String(error) });
+                await fail(entry, error);
+              }
+            })
+          );
+
+          if (active().length === 0) {
+            throw new Error(streams[0].record.error || 'All outputs failed');
+          }
+        }
+        stages.output += Date.now() - stageStart;
+
+        context.stage = 'input';
+        stageStart = Date.now();
+      }
+      stages.input += Date.now() - stageStart;
+      queryRows.observe(rowCount, { job_id: context.jobId, database: config.name, query: query.name });
+
+      if (recordCount === 0) {
+        if (this.nothingNew(job, context)) {
+          return 0;
+        }
+        this.logger.warn(`No valid data after transformation for job ${job.id}; skipping outputs`);
+        throw new Error('No valid data after transformation');
+      }
+
+      stageStart = Date.now();
+      context.stage = 'output';
+      await Promise.all(
+        active().map(async (entry) => {
+          try {
+            await entry.stream!.close();
+          } catch (error) {
+            await fail(entry, error);
+          }
+        })
+      );
+      stages.output += Date.now() - stageStart;
+    } catch (error) {
+      await Promise.all(active().map((entry) => fail(entry, error)));
+      throw error;
+    } finally {
+      for (const entry of streams) {
+        entry.record.duration = entry.start ? Date.now() - entry.start : 0;
+        execution.outputs.push(entry.record);
+      }
+
+      for (const stage of ['input', 'transform', 'output'] as const) {
+        execution.stages[stage] = stages[stage];
+        stageDurationSeconds.observe(stages[stage] / 1000, { job_id: job.id, stage });
+      }
+    }
+
+    const failed = streams.find((entry) => entry.record.status === 'failed');
+    if (failed) {
+      throw new Error(failed.record.error);
+    }
+
+    this.logger.info(`Streamed ${rowCount} rows as ${recordCount} records for job ${job.id}`);
+    context.stage = undefined;
+    return recordCount;
+  }
+
+  /**
+   * Between runs of an incremental job, no rows past the watermark is the normal case, not a failure
+   */
+  private nothingNew(job: Job, context: ExecutionContext): boolean {
+    if (!context.watermark) {
+      return false;
+    }
+
+    this.logger.info(`No new data past watermark ${context.watermark.current} for job ${job.id}; skipping outputs`);
+    context.stage = undefined;
+    return true;
+  }
+
+  private async executeInput(input: Input, context: ExecutionContext): Promise<unknown> {
     const results: Record<string, unknown> = {};
 
     if (input.postgres) {
-      const postgresResults = await this.executeDbQuery('postgres', input.postgres, jobId);
+      const postgresResults = await this.executeDbQuery('postgres', input.postgres, context);
       Object.assign(results, postgresResults);
     }
 
     if (input.mysql) {
-      const mysqlResults = await this.executeDbQuery('mysql', input.mysql, jobId);
+      const mysqlResults = await this.executeDbQuery('mysql', input.mysql, context);
       Object.assign(results, mysqlResults);
     }
 
+    if (input.sqlite) {
+      const sqliteResults = await this.executeDbQuery('sqlite', input.sqlite, context);
+      Object.assign(results, sqliteResults);
+    }
+
     if (input.http) {
-      const httpResults = await this.executeHttpRequest(input.http);
-      results.http = httpResults;
+      results.http = await this.executeHttpInput(input.http, context);
     }
 
     if (Object.keys(results).length === 0) {
@@ -203,7 +606,35 @@ export class JobRunner {
     return results;
   }
 
-  private async executeDbQuery(type: 'postgres' | 'mysql', config: { name: string; connection_info: string; sql: Array<{ name: string; sql: string }> } | Array<{ name: string; connection_info: string; sql: Array<{ name: string; sql: string }> }>, jobId: string): Promise<Record<string, unknown>> {
+  /**
+   * Named requests are nested under their names (http.<name>) and run one after another; like a
+   * failed database, a failed request is recorded as { error } while the others still run.
+   * A single unnamed request keeps the plain http key, and its failure fails the job.
+   */
+  private async executeHttpInput(config: HttpRequest | HttpRequest[], context: ExecutionContext): Promise<unknown> {
+    if (!Array.isArray(config)) {
+      const data = await this.httpInput.fetch(config, context.signal);
+      return config.name ? { [config.name]: data } : data;
+    }
+
+    const results: Record<string, unknown> = {};
+    for (const request of config) {
+      const name = request.name!;
+      try {
+        this.logger.debug(`Executing HTTP request '${name}'`);
+        results[name] = await this.httpInput.fetch(request, context.signal);
+      } catch (error) {
+        if (context.signal.aborted) {
+          throw error;
+        }
+        this.logger.error(`Failed to execute HTTP request '${name}' in job '${context.jobId}':`, { error: error instanceof Error ? error.message : String(error) });
+        results[name] = { error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    return results;
+  }
+
+  private async executeDbQuery(type: DatabaseType, config: DatabaseInput | DatabaseInput[], context: ExecutionContext): Promise<Record<string, unknown>> {
     const results: Record<string, unknown> = {};
 
     // Handle array of connections
@@ -216,10 +647,10 @@ export class JobRunner {
           this.logger.debug(`Executing queries for database: ${dbConfig.name}`);
 
           const connectionInfo = await this.secretsManager.resolveSecret(dbConfig.connection_info);
-          const connection = await this.dbManager.getConnection(type, connectionInfo);
+          const connection = await this.dbManager.getConnection(type, connectionInfo, dbConfig.pool);
 
           // Parse connection info to extract db_name and region
-          const connectionDetails = this.parseConnectionInfo(connectionInfo);
+          const connectionDetails = this.parseConnectionInfo(type, connectionInfo);
 
           // Store connection info at root level for easy access
           (results.connections_info as Record<string, unknown>)[dbConfig.name] = connectionDetails;
@@ -232,7 +663,7 @@ export class JobRunner {
           for (const query of dbConfig.sql) {
             this.logger.debug(`Executing query '${query.name}' on database '${dbConfig.name}'`);
 
-            const data = await connection.query(query.sql);
+            const data = await this.runQuery(type, connection, dbConfig, query, context);
             this.logger.debug(`Query '${query.name}' on database '${dbConfig.name}' returned ${Array.isArray(data) ? data.length : 'non-array'} results`);
 
             // Store data in nested structure: results[db_name][query_name]
@@ -244,8 +675,15 @@ export class JobRunner {
 
           this.logger.debug(`Successfully completed queries for database: ${dbConfig.name}`);
         } catch (error) {
-          this.logger.error(`Failed to execute queries for database '${dbConfig.name}' in job '${jobId}':`, { error: error instanceof Error ? error.message : String(error) });
+          // A timed out job must stop, not move on to the next database
+          if (context.signal.aborted) {
+            throw error;
+          }
+          this.logger.error(`Failed to execute queries for database '${dbConfig.name}' in job '${context.jobId}':`, { error: error instanceof Error ? error.message : String(error) });
           // Continue with other databases instead of stopping entirely
+          if (context.watermark) {
+            context.watermark.incomplete = true;
+          }
           results[dbConfig.name] = {
             error: error instanceof Error ? error.message : String(error),
             connection_info: {},
@@ -255,10 +693,10 @@ export class JobRunner {
     } else {
       // Handle single connection - now with required name field
       const connectionInfo = await this.secretsManager.resolveSecret(config.connection_info);
-      const connection = await this.dbManager.getConnection(type, connectionInfo);
+      const connection = await this.dbManager.getConnection(type, connectionInfo, config.pool);
 
       // Parse connection info to extract db_name and region
-      const connectionDetails = this.parseConnectionInfo(connectionInfo);
+      const connectionDetails = this.parseConnectionInfo(type, connectionInfo);
 
       // Add connections_info at root level for consistency
       results.connections_info = {};
@@ -268,7 +706,7 @@ export class JobRunner {
       results[config.name] = {};
 
       for (const query of config.sql) {
-        const data = await connection.query(query.sql);
+        const data = await this.runQuery(type, connection, config, query, context);
         (results[config.name] as Record<string, unknown>)[query.name] = data;
       }
 
@@ -279,7 +717,51 @@ export class JobRunner {
     return results;
   }
 
-  private parseConnectionInfo(connectionInfo: string): Record<string, unknown> {
+  private async runQuery(type: DatabaseType, connection: DatabaseConnection, config: DatabaseInput, query: SqlQuery, context: ExecutionContext): Promise<unknown[]> {
+    const compiled = compileSql(query.sql, await this.queryValues(context, query), type);
+    const data = await connection.query(compiled.sql, compiled.params, { signal: context.signal, ...this.queryOptions(config, query) });
+    queryRows.observe(data.length, { job_id: context.jobId, database: config.name, query: query.name });
+
+    if (context.watermark) {
+      context.watermark.next = maxWatermark(data, context.watermark.column, context.watermark.next ?? context.watermark.current);
+    }
+
+    return data;
+  }
+
+  // A query's own read_only and statement_timeout take precedence over its connection's
+  private queryOptions(config: DatabaseInput, query: SqlQuery): { readOnly: boolean; statementTimeout?: number } {
+    return {
+      readOnly: query.read_only ?? config.read_only,
+      statementTimeout: query.statement_timeout ?? config.statement_timeout,
+    };
+  }
+
+  // Values available to {{placeholders}} in SQL: the watermark and the query's params
+  private async queryValues(context: ExecutionContext, query: SqlQuery): Promise<Record<string, unknown>> {
+    const values: Record<string, unknown> = {};
+    if (context.watermark) {
+      values.watermark = context.watermark.current;
+    }
+
+    for (const [name, value] of Object.entries(query.params ?? {})) {
+      if (typeof value !== 'string') {
+        values[name] = value;
+      } else if (value.startsWith('!run ')) {
+        values[name] = context.run[value.slice('!run '.length) as keyof ExecutionContext['run']];
+      } else {
+        values[name] = await this.secretsManager.resolveSecret(value);
+      }
+    }
+    return values;
+  }
+
+  private parseConnectionInfo(type: DatabaseType, connectionInfo: string): Record<string, unknown> {
+    if (type === 'sqlite') {
+      const path = connectionInfo.startsWith('file:') ? fileURLToPath(connectionInfo) : connectionInfo;
+      return { db_name: basename(path, extname(path)), region: 'default', path };
+    }
+
     try {
       // Try to parse as JSON first
       const config = JSON.parse(connectionInfo);
@@ -314,51 +796,21 @@ export class JobRunner {
     }
   }
 
-  private async executeHttpRequest(config: { url: string; method: 'GET' | 'POST'; headers?: string | Record<string, string> }): Promise<unknown> {
-    const url = await this.secretsManager.resolveSecret(config.url);
-
-    const headers: Record<string, string> = {};
-    if (config.headers) {
-      if (typeof config.headers === 'string') {
-        const resolvedHeaders = await this.secretsManager.resolveSecret(config.headers);
-        try {
-          Object.assign(headers, JSON.parse(resolvedHeaders));
-        } catch {
-          // If not valid JSON, ignore headers
-        }
-      } else {
-        for (const [key, value] of Object.entries(config.headers)) {
-          headers[key] = await this.secretsManager.resolveSecret(value);
-        }
-      }
-    }
-
-    const response = await fetch(url, {
-      method: config.method,
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    const contentType = response.headers.get('content-type') || '';
-    if (contentType.includes('application/json')) {
-      return response.json();
-    } else {
-      return response.text();
-    }
-  }
-
   private async applyTransformation(data: unknown, transformExpression: string): Promise<unknown> {
     try {
-      this.logger.debug('Input data for transformation:', { data: JSON.stringify(data, null, 2) });
-      this.logger.debug('Transform expression:', { expression: transformExpression });
+      // Serializing the dataset is expensive for large inputs, so only do it when it will be logged
+      const debug = this.logger.isDebugEnabled();
+      if (debug) {
+        this.logger.debug('Input data for transformation:', { data: JSON.stringify(data, null, 2) });
+        this.logger.debug('Transform expression:', { expression: transformExpression });
+      }
 
       const expr = trutoJsonata(transformExpression);
       const result = await expr.evaluate(data);
 
-      this.logger.debug('Transformation result:', { result: JSON.stringify(result, null, 2) });
+      if (debug) {
+        this.logger.debug('Transformation result:', { result: JSON.stringify(result, null, 2) });
+      }
       return result;
     } catch (error) {
       this.logger.error('Transformation error details:', {
@@ -366,7 +818,7 @@ export class JobRunner {
         errorObject: error,
         errorString: JSON.stringify(error, null, 2),
         stack: error instanceof Error ? error.stack : undefined,
-        data: JSON.stringify(data, null, 2),
+        data: this.logger.isDebugEnabled() ? JSON.stringify(data, null, 2) : undefined,
         expression: transformExpression,
       });
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -374,9 +826,144 @@ export class JobRunner {
     }
   }
 
-  private async sendToOutputs(data: unknown, outputs: Output[]): Promise<void> {
-    const promises = outputs.map((output) => this.outputManager.send(data, output));
-    await Promise.all(promises);
+  private async sendToOutputs(data: unknown, outputs: Output[], context: ExecutionContext, execution: JobExecution): Promise<void> {
+    const recordCount = Array.isArray(data) ? data.length : 1;
+
+    const results = await Promise.allSettled(
+      outputs.map(async (output, index) => {
+        const start = Date.now();
+        const record: OutputRunRecord = {
+          index,
+          type: output.type,
+          target: this.outputTarget(output),
+          status: 'completed',
+          recordCount,
+          duration: 0,
+        };
+
+        try {
+          await this.outputManager.send(data, output, context.signal, { jobId: context.jobId, runId: execution.runId, startedAt: execution.startedAt });
+        } catch (error) {
+          record.recordCount = 0;
+          record.error = error instanceof Error ? error.message : String(error);
+
+          // A queued delivery doesn't fail the run: the outbox sends it once the receiver is back
+          if (output.outbox && !context.signal.aborted && (await this.queueInOutbox(data, output, index, execution, record.error))) {
+            record.status = 'queued';
+            return;
+          }
+
+          record.status = 'failed';
+          throw error;
+        } finally {
+          record.duration = Date.now() - start;
+          execution.outputs.push(record);
+        }
+      })
+    );
+
+    execution.outputs.sort((a, b) => a.index - b.index);
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  private async queueInOutbox(data: unknown, output: Output, index: number, execution: JobExecution, error: string): Promise<boolean> {
+    try {
+      await this.outbox.add({
+        job_id: execution.jobId,
+        run_id: execution.runId,
+        output_index: index,
+        output,
+        data,
+        started_at: execution.startedAt.toISOString(),
+        last_error: error,
+      });
+      return true;
+    } catch (outboxError) {
+      this.logger.error(`Failed to queue output ${index} of job ${execution.jobId} in the outbox:`, { error: outboxError instanceof Error ? outboxError.message : String(outboxError) });
+      return false;
+    }
+  }
+
+  private outputTarget(output: Output): string | undefined {
+    return output.endpoint || output.path || (output.bucket ? `${output.bucket}/${output.key}` : undefined);
+  }
+
+  private previousStatus(jobId: string): string | undefined {
+    const status = this.lastStatuses.get(jobId);
+    if (status) return status;
+
+    // After a restart, fall back to the latest run recorded in history
+    try {
+      return this.runHistory?.listRuns(jobId, 1)[0]?.status;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private lastSuccessAt(jobId: string): Date | undefined {
+    const lastSuccess = this.lastSuccesses.get(jobId);
+    if (lastSuccess) return lastSuccess;
+
+    // After a restart, fall back to the latest completed run recorded in history
+    try {
+      const startedAt = this.runHistory?.lastSuccessAt(jobId);
+      return startedAt ? new Date(startedAt) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async recordStatus(execution: JobExecution): Promise<void> {
+    if (!this.statusStore) return;
+
+    const summary: RunSummary = {
+      run_id: execution.runId,
+      status: execution.status,
+      trigger: execution.trigger,
+      started_at: execution.startedAt.toISOString(),
+      duration_ms: execution.duration,
+      record_count: execution.result?.recordCount,
+      error: execution.error?.message,
+    };
+
+    await this.statusStore.update(execution.jobId, {
+      next_run: this.pausedJobs.has(execution.jobId) ? undefined : this.scheduledJobs.get(execution.jobId)?.nextRun()?.toISOString(),
+      last_run: summary,
+      ...(execution.status === 'completed' ? { last_success: summary } : { last_failure: summary }),
+    });
+  }
+
+  private recordHistory(execution: JobExecution, phase: 'start' | 'finish'): void {
+    if (!this.runHistory) return;
+
+    const record: RunRecord = {
+      runId: execution.runId,
+      jobId: execution.jobId,
+      trigger: execution.trigger,
+      status: execution.status,
+      startedAt: execution.startedAt.toISOString(),
+      duration: execution.duration,
+      stages: execution.stages,
+      recordCount: execution.result?.recordCount,
+      watermark: execution.result?.watermark,
+      error: execution.error ? { message: execution.error.message, stage: execution.errorStage, stack: execution.error.stack } : undefined,
+      outputs: execution.outputs,
+    };
+
+    try {
+      if (phase === 'start') {
+        this.runHistory.recordStart(record);
+      } else {
+        this.runHistory.recordFinish(record);
+        this.runHistory.prune();
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record run ${execution.runId} in history:`, { error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
   async executeJobOnce(jobId: string): Promise<JobExecution | null> {
@@ -388,6 +975,145 @@ export class JobRunner {
     return this.executeJob(job);
   }
 
+  /**
+   * Start a job in the background and return its run id without waiting for it to finish
+   */
+  triggerJob(jobId: string): { runId: string; completion: Promise<JobExecution> } {
+    const job = this.configWatcher.getJob(jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    if (this.runningJobs.has(jobId)) {
+      throw new Error(`Job ${jobId} is already running`);
+    }
+
+    const runId = randomUUID();
+    return { runId, completion: this.executeJob(job, 'manual', runId) };
+  }
+
+  pauseJob(jobId: string): void {
+    if (!this.configWatcher.getJob(jobId)) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+
+    this.pausedJobs.add(jobId);
+    this.scheduledJobs.get(jobId)?.pause();
+    this.logger.info(`Paused job: ${jobId}`);
+
+    void this.statusStore?.update(jobId, { paused: true, next_run: undefined });
+  }
+
+  resumeJob(jobId: string): void {
+    if (!this.configWatcher.getJob(jobId)) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+
+    this.pausedJobs.delete(jobId);
+    const cronJob = this.scheduledJobs.get(jobId);
+    cronJob?.resume();
+    this.logger.info(`Resumed job: ${jobId}`);
+
+    void this.statusStore?.update(jobId, { paused: false, next_run: cronJob?.nextRun()?.toISOString() });
+  }
+
+  async reloadConfigs(): Promise<void> {
+    this.logger.info('Reloading job configs...');
+    await this.configWatcher.reload();
+  }
+
+  listJobs(): JobSummary[] {
+    return Array.from(this.configWatcher.getJobs().values()).map((job) => {
+      const cronJob = this.scheduledJobs.get(job.id);
+      const paused = this.pausedJobs.has(job.id);
+
+      return {
+        id: job.id,
+        name: job.name,
+        schedule: job.schedule,
+        enabled: job.enabled,
+        paused,
+        running: this.runningJobs.has(job.id),
+        nextRun: paused ? undefined : cronJob?.nextRun()?.toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Readiness: configs loaded, secrets decryptable, every enabled job scheduled,
+   * and optionally every configured database reachable
+   */
+  async checkReadiness(options: { probeDatabases?: boolean } = {}): Promise<ReadinessReport> {
+    const checks: Record<string, HealthCheckResult> = {};
+
+    const loadState = this.configWatcher.getLoadState();
+    const invalidFiles = Object.keys(loadState.fileErrors).length;
+    checks.configs = {
+      ok: loadState.loaded && invalidFiles === 0,
+      detail: !loadState.loaded ? loadState.error || 'Configs not loaded yet' : invalidFiles > 0 ? loadState.fileErrors : `${this.configWatcher.getJobs().size} jobs loaded`,
+    };
+
+    try {
+      await this.secretsManager.verifySecrets();
+      checks.secrets = { ok: true };
+    } catch (error) {
+      checks.secrets = { ok: false, detail: error instanceof Error ? error.message : String(error) };
+    }
+
+    const unscheduled = Array.from(this.configWatcher.getJobs().values())
+      .filter((job) => job.enabled && !this.scheduledJobs.has(job.id))
+      .map((job) => job.id);
+    checks.scheduler = {
+      ok: unscheduled.length === 0,
+      detail: unscheduled.length > 0 ? `Not scheduled: ${unscheduled.join(', ')}` : `${this.scheduledJobs.size} jobs scheduled`,
+    };
+
+    if (options.probeDatabases) {
+      checks.databases = await this.probeDatabases();
+    }
+
+    return { ready: Object.values(checks).every((check) => check.ok), checks };
+  }
+
+  private async probeDatabases(): Promise<HealthCheckResult> {
+    const failures: Record<string, string> = {};
+    const probed = new Set<string>();
+
+    for (const job of this.configWatcher.getJobs().values()) {
+      if (!job.enabled) continue;
+
+      for (const { type, config } of this.databaseInputs(job.input)) {
+        const key = `${type}:${config.connection_info}`;
+        if (probed.has(key)) continue;
+        probed.add(key);
+
+        try {
+          const connectionInfo = await this.secretsManager.resolveSecret(config.connection_info);
+          const connection = await this.dbManager.getConnection(type, connectionInfo, config.pool);
+          await connection.query('SELECT 1', [], { signal: AbortSignal.timeout(5000) });
+        } catch (error) {
+          failures[`${job.id}/${config.name}`] = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+
+    const failed = Object.keys(failures).length;
+    return { ok: failed === 0, detail: failed > 0 ? failures : `${probed.size} connections ok` };
+  }
+
+  private databaseInputs(input: Input): Array<{ type: DatabaseType; config: DatabaseInput }> {
+    const inputs: Array<{ type: DatabaseType; config: DatabaseInput }> = [];
+
+    for (const type of ['postgres', 'mysql', 'sqlite'] as const) {
+      const configs = input[type];
+      if (!configs) continue;
+      for (const config of Array.isArray(configs) ? configs : [configs]) {
+        inputs.push({ type, config });
+      }
+    }
+
+    return inputs;
+  }
+
   getRunningJobs(): Map<string, JobExecution> {
     return new Map(this.runningJobs);
   }
@@ -410,8 +1136,10 @@ export class JobRunner {
       // Close all database connections to force recreation with new credentials
       await this.dbManager.closeAllConnections();
 
+      secretsReloadsTotal.inc({ result: 'success' });
       this.logger.info('Secrets reloaded successfully, connections will be recreated as needed');
     } catch (error) {
+      secretsReloadsTotal.inc({ result: 'failure' });
       this.logger.error('Failed to reload secrets:', { error: error instanceof Error ? error.message : String(error) });
     }
   }
@@ -421,6 +1149,11 @@ export class JobRunner {
   }
 
   async stop(): Promise<void> {
+    if (this.outboxTimer) {
+      clearInterval(this.outboxTimer);
+      this.outboxTimer = null;
+    }
+
     // Stop all scheduled jobs
     for (const cronJob of this.scheduledJobs.values()) {
       cronJob.stop();
@@ -437,8 +1170,15 @@ export class JobRunner {
 
     if (this.runningJobs.size > 0) {
       this.logger.warn(`Forced shutdown with ${this.runningJobs.size} jobs still running`);
+      for (const controller of this.executionControllers.values()) {
+        controller.abort(new Error('Job runner is shutting down'));
+      }
     }
 
+    // Each delivery has its own timeout, so this can't hang on a broken channel
+    await Promise.all(this.notifications);
+    await this.statusStore?.flush();
+
     this.configWatcher.stop();
 
     if (this.secretsWatcher) {
@@ -447,6 +1187,8 @@ export class JobRunner {
 
     await this.dbManager.closeAll();
 
+    this.runHistory?.close();
+
     this.logger.info('Job runner stopped');
   }
 }
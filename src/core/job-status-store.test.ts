@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobStatusStore } from './job-status-store';
+import { Logger } from '../utils/logger';
+
+describe('JobStatusStore', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'querybird-status-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep every field of concurrent updates', async () => {
+    const store = new JobStatusStore(dir, new Logger('error'));
+
+    // e.g. a pause while a finished run records its result
+    void store.update('users-export', { name: 'Users export', schedule: '0 * * * *' });
+    void store.update('users-export', { last_run: { run_id: 'run-1', status: 'completed', trigger: 'schedule', started_at: '2024-01-01T00:00:00.000Z' } });
+    void store.update('users-export', { paused: true, next_run: undefined });
+    await store.flush();
+
+    expect(await JobStatusStore.read(dir, 'users-export')).toMatchObject({
+      name: 'Users export',
+      schedule: '0 * * * *',
+      paused: true,
+      last_run: { run_id: 'run-1', status: 'completed' },
+    });
+    expect(await readdir(dir)).toEqual(['users-export.json']);
+  });
+
+  it('should apply a removal after the updates before it', async () => {
+    const store = new JobStatusStore(dir, new Logger('error'));
+
+    void store.update('orders-export', { name: 'Orders export' });
+    await store.remove('orders-export');
+
+    expect(await JobStatusStore.read(dir, 'orders-export')).toBeUndefined();
+  });
+});
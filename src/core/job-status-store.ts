@@ -0,0 +1,126 @@
+import { readdir, readFile, unlink } from 'fs/promises';
+import { extname, join } from 'path';
+import { Logger } from '../utils/logger';
+import { writeFileAtomic } from '../utils/atomic-write';
+
+export interface RunSummary {
+  run_id: string;
+  status: string;
+  trigger: string;
+  started_at: string;
+  duration_ms?: number;
+  record_count?: number;
+  error?: string;
+}
+
+export interface JobStatus {
+  job_id: string;
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  paused?: boolean;
+  next_run?: string;
+  last_run?: RunSummary;
+  last_success?: RunSummary;
+  last_failure?: RunSummary;
+  daemon_pid: number;
+  updated_at: string;
+}
+
+type StatusChanges = Partial<Omit<JobStatus, 'job_id' | 'daemon_pid' | 'updated_at'>>;
+
+/**
+ * Compact per-job status files written by the running daemon
+ *
+ * One small JSON file per job (<statusDir>/<jobId>.json) so CLI commands can
+ * show the latest state without talking to the daemon or opening the run history.
+ */
+export class JobStatusStore {
+  private statuses = new Map<string, JobStatus>();
+  // Writes of each job's file run one after another, so concurrent updates don't drop each other's fields
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private statusDir: string, private logger: Logger) {}
+
+  update(jobId: string, changes: StatusChanges): Promise<void> {
+    return this.enqueue(jobId, () => this.write(jobId, changes));
+  }
+
+  remove(jobId: string): Promise<void> {
+    return this.enqueue(jobId, async () => {
+      this.statuses.delete(jobId);
+      await unlink(this.filePath(jobId)).catch(() => undefined);
+    });
+  }
+
+  /**
+   * Wait for every pending write
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+
+  private enqueue(jobId: string, task: () => Promise<void>): Promise<void> {
+    const next = (this.writes.get(jobId) ?? Promise.resolve()).then(task);
+    this.writes.set(jobId, next);
+    void next.finally(() => {
+      if (this.writes.get(jobId) === next) {
+        this.writes.delete(jobId);
+      }
+    });
+    return next;
+  }
+
+  private async write(jobId: string, changes: StatusChanges): Promise<void> {
+    try {
+      const current = this.statuses.get(jobId) ?? (await JobStatusStore.read(this.statusDir, jobId));
+      const status: JobStatus = {
+        name: jobId,
+        schedule: '',
+        enabled: true,
+        ...current,
+        ...changes,
+        job_id: jobId,
+        daemon_pid: process.pid,
+        updated_at: new Date().toISOString(),
+      };
+
+      this.statuses.set(jobId, status);
+      await writeFileAtomic(this.filePath(jobId), JSON.stringify(status, null, 2));
+    } catch (error) {
+      this.logger.error(`Failed to write status for job ${jobId}:`, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private filePath(jobId: string): string {
+    return join(this.statusDir, `${jobId}.json`);
+  }
+
+  static async read(statusDir: string, jobId: string): Promise<JobStatus | undefined> {
+    try {
+      const content = await readFile(join(statusDir, `${jobId}.json`), 'utf-8');
+      return JSON.parse(content) as JobStatus;
+    } catch {
+      return undefined;
+    }
+  }
+
+  static async readAll(statusDir: string): Promise<JobStatus[]> {
+    let files: string[];
+    try {
+      files = await readdir(statusDir);
+    } catch {
+      return [];
+    }
+
+    const statuses: JobStatus[] = [];
+    for (const file of files.filter((f) => extname(f) === '.json').sort()) {
+      const status = await JobStatusStore.read(statusDir, file.slice(0, -'.json'.length));
+      if (status) {
+        statuses.push(status);
+      }
+    }
+
+    return statuses;
+  }
+}
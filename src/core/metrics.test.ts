@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'bun:test';
+import { MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('should render counters with labels', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('test_total', 'A test counter', ['status']);
+
+    counter.inc({ status: 'completed' });
+    counter.inc({ status: 'completed' });
+    counter.inc({ status: 'failed' });
+
+    const output = registry.render();
+    expect(output).toContain('# TYPE test_total counter');
+    expect(output).toContain('test_total{status="completed"} 2');
+    expect(output).toContain('test_total{status="failed"} 1');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('test_seconds', 'A test histogram', ['job_id'], [1, 5]);
+
+    histogram.observe(0.5, { job_id: 'a' });
+    histogram.observe(3, { job_id: 'a' });
+    histogram.observe(10, { job_id: 'a' });
+
+    const output = registry.render();
+    expect(output).toContain('test_seconds_bucket{job_id="a",le="1"} 1');
+    expect(output).toContain('test_seconds_bucket{job_id="a",le="5"} 2');
+    expect(output).toContain('test_seconds_bucket{job_id="a",le="+Inf"} 3');
+    expect(output).toContain('test_seconds_sum{job_id="a"} 13.5');
+    expect(output).toContain('test_seconds_count{job_id="a"} 3');
+  });
+
+  it('should collect gauge values at render time', () => {
+    const registry = new MetricsRegistry();
+    let connections = 1;
+    registry.gauge('test_connections', 'A test gauge').collect(() => connections);
+
+    connections = 4;
+    expect(registry.render()).toContain('test_connections 4');
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_total', 'A test counter', ['query']).inc({ query: 'say "hi"' });
+
+    expect(registry.render()).toContain('test_total{query="say \\"hi\\""} 1');
+  });
+});
@@ -0,0 +1,163 @@
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+function labelKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+}
+
+function formatLabels(labelNames: string[], values: string[], extra?: [string, string]): string {
+  const pairs = labelNames.map((name, i) => [name, values[i]] as [string, string]);
+  if (extra) pairs.push(extra);
+  if (pairs.length === 0) return '';
+
+  const escape = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${pairs.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[] = []) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+  private collector: (() => number) | null = null;
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[] = []) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(this.labelNames, labels), value);
+  }
+
+  /**
+   * Compute an unlabelled value at scrape time instead of tracking it
+   */
+  collect(collector: () => number): void {
+    this.collector = collector;
+  }
+
+  render(): string[] {
+    if (this.collector) {
+      return [`${this.name} ${formatValue(this.collector())}`];
+    }
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[] = [], private buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+
+    for (const [key, series] of this.series) {
+      const values = JSON.parse(key) as string[];
+      this.buckets.forEach((bucket, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, ['le', formatValue(bucket)])} ${series.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, ['le', '+Inf'])} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${series.count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Minimal Prometheus registry rendering the text exposition format
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+const ROW_BUCKETS = [0, 1, 10, 100, 1000, 10000, 100000, 1000000];
+
+// Process-wide registry, like Prometheus client libraries' default registry
+export const metrics = new MetricsRegistry();
+
+export const jobExecutionsTotal = metrics.counter('querybird_job_executions_total', 'Job executions by final status', ['job_id', 'status']);
+export const jobDurationSeconds = metrics.histogram('querybird_job_duration_seconds', 'Total job execution time', ['job_id'], DURATION_BUCKETS);
+export const stageDurationSeconds = metrics.histogram('querybird_stage_duration_seconds', 'Time spent per pipeline stage', ['job_id', 'stage'], DURATION_BUCKETS);
+export const jobsRunning = metrics.gauge('querybird_jobs_running', 'Job executions currently in progress');
+export const queryRows = metrics.histogram('querybird_query_rows', 'Rows returned per query', ['job_id', 'database', 'query'], ROW_BUCKETS);
+export const outputAttemptsTotal = metrics.counter('querybird_output_attempts_total', 'Output delivery attempts by output type and result', ['type', 'result']);
+export const outputRetriesTotal = metrics.counter('querybird_output_retries_total', 'Output delivery retries by output type', ['type']);
+export const outboxEntriesTotal = metrics.counter('querybird_outbox_entries_total', 'Outbox entries queued, delivered and failed on redelivery', ['event']);
+export const dbConnections = metrics.gauge('querybird_db_connections', 'Open database connections across all connection pools');
+export const secretsReloadsTotal = metrics.counter('querybird_secrets_reloads_total', 'Secrets reloads by result', ['result']);
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'bun:test';
+import { Notifier, NotificationPayload } from './notifier';
+import { OutputManager } from './output-manager';
+import type { JobExecution } from './job-runner';
+import { Job, JobSchema, Output } from '../types/job-schema';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { Logger } from '../utils/logger';
+
+function createNotifier(): { notifier: Notifier; sent: NotificationPayload[] } {
+  const sent: NotificationPayload[] = [];
+  const outputManager = { send: async (data: unknown) => void sent.push(data as NotificationPayload) } as unknown as OutputManager;
+  const notifier = new Notifier({} as ImprovedSecretsManager, outputManager, new Logger('error'));
+  return { notifier, sent };
+}
+
+const job: Job = JobSchema.parse({
+  id: 'test-job',
+  name: 'Test job',
+  input: { http: { url: 'https://example.com/data' } },
+  transform: '$',
+  schedule: '*/5 * * * *',
+  outputs: [{ type: 'file', path: 'out.json' }],
+  on_failure: [{ type: 'webhook', endpoint: 'https://example.com/alerts', dedupe_window: 60000 }],
+  on_recovery: [{ type: 'webhook', endpoint: 'https://example.com/alerts' }],
+});
+
+function execution(status: JobExecution['status'], error?: string): JobExecution {
+  const startedAt = new Date();
+  return {
+    runId: crypto.randomUUID(),
+    jobId: job.id,
+    trigger: 'cron',
+    startedAt,
+    scheduledAt: startedAt,
+    status,
+    error: error ? new Error(error) : undefined,
+    errorStage: error ? 'input' : undefined,
+    duration: 1200,
+    stages: {},
+    outputs: [],
+  };
+}
+
+describe('Notifier', () => {
+  it('should send a repeated failure once per dedupe window', async () => {
+    const { notifier, sent } = createNotifier();
+
+    await notifier.notify(job, execution('failed', 'connection refused'));
+    await notifier.notify(job, execution('failed', 'connection refused'), 'failed');
+    await notifier.notify(job, execution('failed', 'connection refused'), 'failed');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ event: 'failure', job_id: 'test-job', stage: 'input', error: 'connection refused' });
+  });
+
+  it('should alert on a different error right away', async () => {
+    const { notifier, sent } = createNotifier();
+
+    await notifier.notify(job, execution('failed', 'connection refused'));
+    await notifier.notify(job, execution('timed_out', 'Job timed out after 30000ms'), 'failed');
+
+    expect(sent.map((payload) => payload.status)).toEqual(['failed', 'timed_out']);
+  });
+
+  it('should send a recovery and reset de-duplication after a success', async () => {
+    const { notifier, sent } = createNotifier();
+
+    await notifier.notify(job, execution('failed', 'connection refused'));
+    await notifier.notify(job, execution('completed'), 'failed');
+    await notifier.notify(job, execution('completed'), 'completed');
+    await notifier.notify(job, execution('failed', 'connection refused'), 'completed');
+
+    expect(sent.map((payload) => payload.event)).toEqual(['failure', 'recovery', 'failure']);
+  });
+
+  it('should give up on a channel that never responds', async () => {
+    const outputs: Output[] = [];
+    const outputManager = {
+      // Hangs until the delivery is aborted, like an endpoint that accepts the connection and never answers
+      send: (_data: unknown, output: Output, signal: AbortSignal) => {
+        outputs.push(output);
+        return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+      },
+    } as unknown as OutputManager;
+    const notifier = new Notifier({} as ImprovedSecretsManager, outputManager, new Logger('error'), 50);
+
+    const start = Date.now();
+    await notifier.notify(job, execution('failed', 'connection refused'));
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(outputs[0]).toMatchObject({ retryCount: 1, retryDelay: 1000 });
+  });
+});
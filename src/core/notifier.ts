@@ -0,0 +1,182 @@
+import { Job, NotificationChannel, Output, OutputSchema } from '../types/job-schema';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { Logger } from '../utils/logger';
+import { sendMail } from '../utils/smtp';
+import { OutputManager } from './output-manager';
+import type { JobExecution } from './job-runner';
+
+export type NotificationEvent = 'failure' | 'success' | 'recovery';
+
+export interface NotificationPayload {
+  event: NotificationEvent;
+  job_id: string;
+  job_name: string;
+  run_id: string;
+  trigger: string;
+  status: string;
+  stage?: string;
+  error?: string;
+  duration_ms?: number;
+  started_at: string;
+  record_count?: number;
+  // Identical failures suppressed by de-duplication since the last alert
+  suppressed_failures?: number;
+}
+
+interface SentFailure {
+  error: string;
+  sentAt: number;
+  suppressed: number;
+}
+
+const FAILED_STATUSES = ['failed', 'timed_out'];
+
+// Alerts get one quick retry; the outbox and long backoffs are for data, not alerts
+const ALERT_RETRIES = { retryCount: 1, retryDelay: 1000 };
+
+/**
+ * Sends a job's on_failure / on_success / on_recovery notifications
+ *
+ * Webhook and Slack alerts go through OutputManager, so they get the same secret
+ * resolution as regular HTTP outputs. Each delivery, including its retry, is bounded
+ * by `deliveryTimeout` so a channel that never answers can't hold up the runner.
+ * A failure that repeats with the
+ * same stage and error is sent once per channel per `dedupe_window`; the next
+ * success resets it so a new failure alerts immediately.
+ */
+export class Notifier {
+  private sentFailures = new Map<string, SentFailure>();
+
+  constructor(private secretsManager: ImprovedSecretsManager, private outputManager: OutputManager, private logger: Logger, private deliveryTimeout = 15000) {}
+
+  async notify(job: Job, execution: JobExecution, previousStatus?: string): Promise<void> {
+    const events: Array<[NotificationEvent, NotificationChannel[] | undefined]> = [];
+
+    if (execution.status === 'completed') {
+      this.clearFailures(job.id);
+      if (previousStatus && FAILED_STATUSES.includes(previousStatus)) {
+        events.push(['recovery', job.on_recovery]);
+      }
+      events.push(['success', job.on_success]);
+    } else if (FAILED_STATUSES.includes(execution.status)) {
+      events.push(['failure', job.on_failure]);
+    }
+
+    const deliveries: Promise<void>[] = [];
+    for (const [event, channels] of events) {
+      channels?.forEach((channel, index) => {
+        const payload = this.buildPayload(event, job, execution);
+        if (event === 'failure' && !this.shouldSendFailure(`${job.id}:${index}`, channel, payload)) {
+          this.logger.debug(`Suppressed duplicate failure notification for job ${job.id} (${channel.type})`);
+          return;
+        }
+
+        deliveries.push(
+          this.deliver(channel, payload).catch((error) => {
+            // A broken alert channel must never affect the job itself
+            this.logger.error(`Failed to send ${event} notification for job ${job.id} via ${channel.type}:`, { error: error instanceof Error ? error.message : String(error) });
+          })
+        );
+      });
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  private shouldSendFailure(key: string, channel: NotificationChannel, payload: NotificationPayload): boolean {
+    const error = `${payload.stage ?? ''}:${payload.error ?? ''}`;
+    const previous = this.sentFailures.get(key);
+    const now = Date.now();
+
+    if (previous && previous.error === error && now - previous.sentAt < channel.dedupe_window) {
+      previous.suppressed++;
+      return false;
+    }
+
+    if (previous?.suppressed) {
+      payload.suppressed_failures = previous.suppressed;
+    }
+    this.sentFailures.set(key, { error, sentAt: now, suppressed: 0 });
+    return true;
+  }
+
+  private clearFailures(jobId: string): void {
+    for (const key of this.sentFailures.keys()) {
+      if (key.startsWith(`${jobId}:`)) {
+        this.sentFailures.delete(key);
+      }
+    }
+  }
+
+  private buildPayload(event: NotificationEvent, job: Job, execution: JobExecution): NotificationPayload {
+    return {
+      event,
+      job_id: job.id,
+      job_name: job.name,
+      run_id: execution.runId,
+      trigger: execution.trigger,
+      status: execution.status,
+      stage: execution.errorStage,
+      error: execution.error?.message,
+      duration_ms: execution.duration,
+      started_at: execution.startedAt.toISOString(),
+      record_count: execution.result?.recordCount,
+    };
+  }
+
+  private async deliver(channel: NotificationChannel, payload: NotificationPayload): Promise<void> {
+    const signal = AbortSignal.timeout(this.deliveryTimeout);
+    const webhook = (): Output => OutputSchema.parse({ type: 'webhook', endpoint: channel.endpoint, headers: channel.headers, ...ALERT_RETRIES });
+
+    switch (channel.type) {
+      case 'slack':
+        await this.outputManager.send({ text: formatText(payload, true) }, webhook(), signal);
+        break;
+      case 'webhook':
+        await this.outputManager.send(payload, webhook(), signal);
+        break;
+      case 'smtp': {
+        const serverUrl = await this.secretsManager.resolveSecret(channel.endpoint);
+        await sendMail(
+          serverUrl,
+          {
+            from: channel.from!,
+            to: Array.isArray(channel.to) ? channel.to : [channel.to!],
+            subject: formatSubject(payload),
+            text: formatText(payload, false),
+          },
+          { timeout: this.deliveryTimeout, signal, ca: channel.tls_ca ? await this.secretsManager.resolveSecret(channel.tls_ca) : undefined }
+        );
+        break;
+      }
+      default:
+        throw new Error(`Unsupported notification type: ${channel.type}`);
+    }
+
+    this.logger.info(`Sent ${payload.event} notification for job ${payload.job_id} via ${channel.type}`);
+  }
+}
+
+function formatSubject(payload: NotificationPayload): string {
+  switch (payload.event) {
+    case 'failure':
+      return `[QueryBird] Job ${payload.job_id} ${payload.status === 'timed_out' ? 'timed out' : 'failed'}`;
+    case 'recovery':
+      return `[QueryBird] Job ${payload.job_id} recovered`;
+    default:
+      return `[QueryBird] Job ${payload.job_id} succeeded`;
+  }
+}
+
+function formatText(payload: NotificationPayload, markdown: boolean): string {
+  const title = formatSubject(payload).replace('[QueryBird] ', '');
+  const lines = [markdown ? `*${title}*` : title, `Job: ${payload.job_name} (${payload.job_id})`, `Run: ${payload.run_id} (${payload.trigger})`];
+
+  if (payload.stage) lines.push(`Stage: ${payload.stage}`);
+  if (payload.error) lines.push(`Error: ${payload.error}`);
+  if (payload.duration_ms !== undefined) lines.push(`Duration: ${(payload.duration_ms / 1000).toFixed(1)}s`);
+  if (payload.record_count !== undefined) lines.push(`Records: ${payload.record_count}`);
+  if (payload.suppressed_failures) lines.push(`Repeated ${payload.suppressed_failures} more times since the last alert`);
+
+  return lines.join('\n');
+}
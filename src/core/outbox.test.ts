@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtemp, readdir, rename } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Outbox } from './outbox';
+import { OutputSchema } from '../types/job-schema';
+import { Logger } from '../utils/logger';
+
+async function createOutbox(): Promise<{ outbox: Outbox; dir: string }> {
+  const dir = await mkdtemp(join(tmpdir(), 'qb-outbox-'));
+  return { outbox: new Outbox(dir, new Logger('error')), dir };
+}
+
+const entry = {
+  job_id: 'daily-export',
+  run_id: 'run-1',
+  output_index: 0,
+  output: OutputSchema.parse({ type: 'webhook', endpoint: '!secrets webhooks.url' }),
+  data: [{ id: 1 }, { id: 2 }],
+  started_at: '2024-01-01T00:00:00.000Z',
+  last_error: 'HTTP 503: Service Unavailable',
+};
+
+describe('Outbox', () => {
+  it('should keep failed redeliveries queued with a later next attempt', async () => {
+    const { outbox } = await createOutbox();
+    const queued = await outbox.add(entry);
+
+    const result = await outbox.deliver(queued, async () => {
+      throw new Error('HTTP 502: Bad Gateway');
+    });
+
+    expect(result).toBe('failed');
+    const [retried] = await outbox.list();
+    expect(retried.attempts).toBe(1);
+    expect(retried.last_error).toBe('HTTP 502: Bad Gateway');
+    expect(Date.parse(retried.next_attempt_at)).toBeGreaterThan(Date.parse(queued.next_attempt_at));
+    expect(retried.output.endpoint).toBe('!secrets webhooks.url');
+  });
+
+  it('should remove entries once delivered', async () => {
+    const { outbox, dir } = await createOutbox();
+    const queued = await outbox.add(entry);
+    const sent: unknown[] = [];
+
+    expect(await outbox.deliver(queued, async (pending) => void sent.push(pending.data))).toBe('delivered');
+
+    expect(sent).toEqual([entry.data]);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should skip entries claimed by another process and recover them when it is gone', async () => {
+    const { outbox, dir } = await createOutbox();
+    const queued = await outbox.add(entry);
+    // A pid far above the usual pid_max, so it can't be running
+    await rename(join(dir, `${queued.id}.json`), join(dir, `${queued.id}.99999999.sending`));
+
+    expect(await outbox.deliver(queued, async () => undefined)).toBe('skipped');
+    expect(await outbox.list()).toEqual([]);
+
+    await outbox.recover();
+    expect((await outbox.list()).map((pending) => pending.id)).toEqual([queued.id]);
+  });
+});
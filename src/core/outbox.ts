@@ -0,0 +1,193 @@
+import { readdir, readFile, rename, unlink } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/logger';
+import { writeFileAtomic } from '../utils/atomic-write';
+import { Output } from '../types/job-schema';
+import { OutputManager } from './output-manager';
+import { outboxEntriesTotal } from './metrics';
+
+export interface OutboxEntry {
+  id: string;
+  job_id: string;
+  run_id: string;
+  output_index: number;
+  // The output as configured, so secrets stay references instead of being written to disk
+  output: Output;
+  data: unknown;
+  // Start of the run that produced the data, used for templated S3 keys
+  started_at: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at?: string;
+  last_error?: string;
+}
+
+export type DeliveryResult = 'delivered' | 'failed' | 'skipped';
+
+// Redeliveries back off from one minute up to an hour between attempts
+const BASE_RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+// A single redelivery (including the output's own retries) may not hold up the queue for longer
+const DELIVERY_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * On-disk queue of output deliveries that failed after all their retries
+ *
+ * Each entry is one JSON file (<outboxDir>/<id>.json) holding the transformed
+ * data and the output it was meant for. An entry being delivered is renamed to
+ * <id>.<pid>.sending first, so the daemon and the CLI never send it twice.
+ */
+export class Outbox {
+  constructor(private outboxDir: string, private logger: Logger) {}
+
+  async add(entry: Pick<OutboxEntry, 'job_id' | 'run_id' | 'output_index' | 'output' | 'data' | 'started_at' | 'last_error'>): Promise<OutboxEntry> {
+    const now = new Date().toISOString();
+    const stored: OutboxEntry = {
+      id: `${entry.job_id}-${Date.now()}-${randomUUID().slice(0, 8)}`,
+      ...entry,
+      created_at: now,
+      attempts: 0,
+      next_attempt_at: new Date(Date.now() + BASE_RETRY_DELAY).toISOString(),
+    };
+
+    await writeFileAtomic(this.entryPath(stored.id), JSON.stringify(stored));
+    outboxEntriesTotal.inc({ event: 'queued' });
+    this.logger.warn(`Queued undelivered output ${entry.output_index} of job ${entry.job_id} in the outbox as ${stored.id}`);
+    return stored;
+  }
+
+  /**
+   * Entries waiting for delivery, oldest first. Entries being sent right now are not included.
+   */
+  async list(jobId?: string): Promise<OutboxEntry[]> {
+    const entries: OutboxEntry[] = [];
+
+    for (const file of await this.files()) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const entry = JSON.parse(await readFile(join(this.outboxDir, file), 'utf-8')) as OutboxEntry;
+        if (!jobId || entry.job_id === jobId) {
+          entries.push(entry);
+        }
+      } catch (error) {
+        // Delivered or purged while listing
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        this.logger.error(`Failed to read outbox entry ${file}:`, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Send queued entries through their outputs again
+   *
+   * `dueOnly` skips entries whose next attempt is still in the future, as the
+   * background loop does; the CLI retries everything that matches.
+   */
+  async redeliver(outputManager: OutputManager, options: { jobId?: string; id?: string; dueOnly?: boolean } = {}): Promise<Record<DeliveryResult, number>> {
+    const results: Record<DeliveryResult, number> = { delivered: 0, failed: 0, skipped: 0 };
+    const now = Date.now();
+
+    for (const entry of await this.list(options.jobId)) {
+      if (options.id && entry.id !== options.id) continue;
+      if (options.dueOnly && Date.parse(entry.next_attempt_at) > now) continue;
+
+      const result = await this.deliver(entry, () =>
+        outputManager.send(entry.data, entry.output, AbortSignal.timeout(DELIVERY_TIMEOUT), {
+          jobId: entry.job_id,
+          runId: entry.run_id,
+          startedAt: new Date(entry.started_at),
+        })
+      );
+      results[result]++;
+    }
+
+    return results;
+  }
+
+  /**
+   * Claim an entry and try to deliver it; the entry is removed on success and
+   * rescheduled with a longer delay on failure. Entries another process has
+   * already claimed are skipped.
+   */
+  async deliver(entry: OutboxEntry, send: (entry: OutboxEntry) => Promise<void>): Promise<DeliveryResult> {
+    const claimedPath = join(this.outboxDir, `${entry.id}.${process.pid}.sending`);
+    try {
+      await rename(this.entryPath(entry.id), claimedPath);
+    } catch {
+      return 'skipped';
+    }
+
+    try {
+      await send(entry);
+      await unlink(claimedPath);
+      outboxEntriesTotal.inc({ event: 'delivered' });
+      this.logger.info(`Delivered outbox entry ${entry.id} for job ${entry.job_id}`);
+      return 'delivered';
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const delay = Math.min(BASE_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY);
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        last_attempt_at: new Date().toISOString(),
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+        last_error: error instanceof Error ? error.message : String(error),
+      };
+
+      await writeFileAtomic(this.entryPath(entry.id), JSON.stringify(updated));
+      await unlink(claimedPath).catch(() => undefined);
+      outboxEntriesTotal.inc({ event: 'redelivery_failed' });
+      this.logger.warn(`Redelivery of outbox entry ${entry.id} failed, next attempt at ${updated.next_attempt_at}:`, { error: updated.last_error });
+      return 'failed';
+    }
+  }
+
+  async remove(id: string): Promise<boolean> {
+    try {
+      await unlink(this.entryPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Put entries claimed by a process that has since died back in the queue
+   */
+  async recover(): Promise<void> {
+    for (const file of await this.files()) {
+      const match = /^(.+)\.(\d+)\.sending$/.exec(file);
+      if (!match || isAlive(Number(match[2]))) continue;
+
+      await rename(join(this.outboxDir, file), this.entryPath(match[1])).catch(() => undefined);
+      this.logger.warn(`Recovered outbox entry ${match[1]} left behind by process ${match[2]}`);
+    }
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return await readdir(this.outboxDir);
+    } catch {
+      return [];
+    }
+  }
+
+  private entryPath(id: string): string {
+    return join(this.outboxDir, `${id}.json`);
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
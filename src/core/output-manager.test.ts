@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { OutputManager } from './output-manager';
+import { OutputSchema } from '../types/job-schema';
+import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
+import { Logger } from '../utils/logger';
+
+// Secrets resolution passes plain values through unchanged
+const secretsManager = { resolveSecret: async (value: string) => value } as unknown as ImprovedSecretsManager;
+const outputManager = new OutputManager(secretsManager, new Logger('error'));
+
+const received: Array<{ index: string | null; total: string | null; rows: unknown[] }> = [];
+let failBatch: string | null = null;
+const attempts = new Map<string, number>();
+let server: Server<undefined>;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      const attempt = (attempts.get(pathname) ?? 0) + 1;
+      attempts.set(pathname, attempt);
+      if (pathname === '/invalid') {
+        return new Response('bad request', { status: 400, statusText: 'Bad Request' });
+      }
+      if (pathname === '/throttled' && attempt === 1) {
+        return new Response('slow down', { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '0' } });
+      }
+
+      const index = request.headers.get('x-batch-index');
+      if (failBatch !== null && index === failBatch) {
+        return new Response('rejected', { status: 422, statusText: 'Unprocessable Entity' });
+      }
+      received.push({ index, total: request.headers.get('x-batch-total'), rows: await request.json() });
+      return new Response(null, { status: 204 });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const rows = Array.from({ length: 10 }, (_, id) => ({ id, name: `row-${id}` }));
+
+describe('OutputManager batched HTTP delivery', () => {
+  it('should split array results into batches with sequence headers', async () => {
+    received.length = 0;
+    const output = OutputSchema.parse({ type: 'http', endpoint: `http://127.0.0.1:${server.port}/ingest`, batch_size: 4, concurrency: 2 });
+
+    await outputManager.send(rows, output);
+
+    const batches = received.sort((a, b) => Number(a.index) - Number(b.index));
+    expect(batches.map((batch) => [batch.index, batch.total, batch.rows.length])).toEqual([
+      ['0', '3', 4],
+      ['1', '3', 4],
+      ['2', '3', 2],
+    ]);
+    expect(batches.flatMap((batch) => batch.rows)).toEqual(rows);
+  });
+
+  it('should keep each request body under max_bytes', async () => {
+    received.length = 0;
+    const output = OutputSchema.parse({ type: 'http', endpoint: `http://127.0.0.1:${server.port}/ingest`, max_bytes: 200 });
+
+    await outputManager.send(rows, output);
+
+    expect(received.length).toBeGreaterThan(1);
+    for (const batch of received) {
+      expect(Buffer.byteLength(JSON.stringify(batch.rows, null, 2))).toBeLessThanOrEqual(200);
+    }
+    expect(received.flatMap((batch) => batch.rows)).toEqual(rows);
+  });
+
+  it('should stop sending after a batch fails when batch_failure is abort', async () => {
+    received.length = 0;
+    failBatch = '1';
+    const output = OutputSchema.parse({ type: 'http', endpoint: `http://127.0.0.1:${server.port}/ingest`, batch_size: 2, retryCount: 1 });
+
+    try {
+      await expect(outputManager.send(rows, output)).rejects.toThrow('1 of 5 batches failed (1 delivered, 3 not sent); batch 1: HTTP 422');
+    } finally {
+      failBatch = null;
+    }
+    expect(received.map((batch) => batch.index)).toEqual(['0']);
+  });
+
+  it('should only allow batching for outputs that send the data as the body', () => {
+    expect(OutputSchema.safeParse({ type: 'file', path: 'out.json', batch_size: 10 }).success).toBe(false);
+    expect(OutputSchema.safeParse({ type: 'http', endpoint: 'https://example.com', method: 'GET', batch_size: 10 }).success).toBe(false);
+  });
+});
+
+describe('OutputManager retries', () => {
+  it('should fail fast on status codes that are not in retry_on', async () => {
+    const output = OutputSchema.parse({ type: 'webhook', endpoint: `http://127.0.0.1:${server.port}/invalid`, retryCount: 3, retryDelay: 10 });
+
+    await expect(outputManager.send({ id: 1 }, output)).rejects.toThrow('HTTP 400: Bad Request');
+    expect(attempts.get('/invalid')).toBe(1);
+  });
+
+  it('should retry throttled requests after the Retry-After delay', async () => {
+    const output = OutputSchema.parse({ type: 'webhook', endpoint: `http://127.0.0.1:${server.port}/throttled`, retryCount: 3, retryDelay: 60000 });
+
+    await outputManager.send([{ id: 1 }], output);
+    expect(attempts.get('/throttled')).toBe(2);
+  });
+});
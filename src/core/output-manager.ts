@@ -3,27 +3,139 @@ import { dirname, join } from 'path';
 import { ImprovedSecretsManager } from '../utils/improved-secrets-manager';
 import { Logger } from '../utils/logger';
 import { Output } from '../types/job-schema';
+import { sleep } from '../utils/abort';
+import { S3Client } from '../utils/s3-client';
+import { renderTemplate } from '../utils/template';
+import { toParquet } from '../utils/parquet';
+import { compress, contentEncoding, createCompressor } from '../utils/compression';
+import { signRequest } from '../utils/signing';
+import { OAuth2Client } from '../utils/oauth2';
+import { createRowEncoder, escapeCsvValue } from '../utils/row-encoder';
+import { ByteSink, FileSink, HttpSink, OutputStream, S3Sink, createOutputStream } from './output-stream';
+import { HttpError, RetryPolicy, isRetryable, retryDelay } from '../utils/retry';
+import { outputAttemptsTotal, outputRetriesTotal } from './metrics';
+
+// Formatted output body: text for json/csv, bytes for parquet
+type Payload = string | Uint8Array<ArrayBuffer>;
+
+// The run an output is sent for, used to fill in templated S3 keys
+export interface OutputContext {
+  jobId: string;
+  runId: string;
+  startedAt: Date;
+}
 
 export class OutputManager {
-  constructor(private secretsManager: ImprovedSecretsManager, private logger: Logger, private outputDir: string = './outputs') {}
-
-  async send(data: unknown, output: Output): Promise<void> {
+  constructor(
+    private secretsManager: ImprovedSecretsManager,
+    private logger: Logger,
+    private outputDir: string = './outputs',
+    // Shared with the HTTP input so both reuse cached access tokens
+    private oauth2: OAuth2Client = new OAuth2Client(logger)
+  ) {}
+
+  async send(data: unknown, output: Output, signal?: AbortSignal, context?: OutputContext): Promise<void> {
     const resolvedOutput = await this.resolveSecrets(output);
 
     switch (resolvedOutput.type) {
       case 'webhook':
       case 'http':
-        await this.sendHttp(data, resolvedOutput);
+        await this.sendHttp(data, resolvedOutput, signal);
         break;
       case 'file':
-        await this.saveToFile(data, resolvedOutput);
+        await this.saveToFile(data, resolvedOutput, signal);
         break;
       case 's3':
-        await this.saveToS3(data, resolvedOutput);
+        await this.saveToS3(data, resolvedOutput, signal, context);
+        break;
+      default:
+        throw new Error(`Unsupported output type: ${output.type}`);
+    }
+  }
+
+  /**
+   * Open an output that is written batch by batch, for streaming jobs
+   *
+   * Nothing is buffered beyond the current batch (and one multipart part for S3),
+   * so the stream can't be replayed: streamed outputs are sent once, without retries.
+   */
+  async openStream(output: Output, signal?: AbortSignal, context?: OutputContext): Promise<OutputStream> {
+    const resolvedOutput = await this.resolveSecrets(output);
+    if (resolvedOutput.format === 'parquet') {
+      throw new Error('Parquet output cannot be streamed; use json, ndjson or csv');
+    }
+
+    let sink: ByteSink;
+    switch (resolvedOutput.type) {
+      case 'webhook':
+      case 'http':
+        sink = await this.openHttpSink(resolvedOutput, signal);
+        break;
+      case 'file':
+        sink = new FileSink(await this.prepareFilePath(resolvedOutput));
         break;
+      case 's3': {
+        const { client, key } = this.createS3Client(resolvedOutput, context);
+        sink = new S3Sink(client.createUpload(key, this.getContentHeaders(resolvedOutput), signal));
+        break;
+      }
       default:
         throw new Error(`Unsupported output type: ${output.type}`);
     }
+
+    const compressor = resolvedOutput.compression === 'none' ? undefined : createCompressor(resolvedOutput.compression);
+    const stream = createOutputStream(createRowEncoder(resolvedOutput.format), sink, compressor);
+
+    return {
+      write: (rows) => stream.write(rows),
+      close: async () => {
+        try {
+          await stream.close();
+          outputAttemptsTotal.inc({ type: output.type, result: 'success' });
+        } catch (error) {
+          outputAttemptsTotal.inc({ type: output.type, result: 'failure' });
+          throw error;
+        }
+        this.logger.info(`Finished streaming ${output.type} output`);
+      },
+      abort: async () => {
+        outputAttemptsTotal.inc({ type: output.type, result: 'failure' });
+        await stream.abort();
+      },
+    };
+  }
+
+  private async openHttpSink(output: Output, signal?: AbortSignal): Promise<ByteSink> {
+    if (!output.endpoint) {
+      throw new Error('Endpoint is required for HTTP output');
+    }
+
+    // The streamed rows are the request body, so there is nothing to stream without one
+    const method = output.response_url_field ? output.upload_method || 'POST' : output.method || 'POST';
+    if (method === 'GET' || method === 'DELETE' || (output.body && !output.response_url_field)) {
+      throw new Error('Streamed HTTP outputs must send the rows as the body: use POST, PUT or PATCH without a custom body');
+    }
+    // The signature covers the whole body, which isn't known until the stream ends
+    if (output.signing) {
+      throw new Error('Streamed HTTP outputs cannot be signed');
+    }
+
+    if (output.response_url_field) {
+      const { upload_url } = await this.getUploadUrl(output, signal);
+      return new HttpSink(upload_url, { method, headers: this.getContentHeaders(output) }, signal);
+    }
+
+    const headers: Record<string, string> = {};
+    if (output.headers && typeof output.headers === 'object' && !Array.isArray(output.headers)) {
+      Object.assign(headers, output.headers);
+    }
+    Object.assign(headers, this.getContentHeaders(output));
+    // A streamed body can't be resent, so a rejected token fails the output instead of being refreshed
+    if (output.auth) {
+      Object.assign(headers, await this.oauth2.authorization(output.auth, signal));
+    }
+
+    return new HttpSink(this.buildUrl(output.endpoint, output.query_params), { method, headers }, signal);
   }
 
   private async resolveSecrets(output: Output): Promise<Output> {
@@ -85,17 +197,35 @@ export class OutputManager {
       resolved.path = await this.secretsManager.resolveSecret(resolved.path);
     }
 
+    if (resolved.auth) {
+      const auth = { ...resolved.auth };
+      for (const field of ['token_url', 'client_id', 'client_secret'] as const) {
+        auth[field] = await this.secretsManager.resolveSecret(auth[field]);
+      }
+      resolved.auth = auth;
+    }
+
+    if (resolved.signing) {
+      resolved.signing = { ...resolved.signing, secret: await this.secretsManager.resolveSecret(resolved.signing.secret) };
+    }
+
+    for (const field of ['region', 'accessKeyId', 'secretAccessKey', 'sessionToken'] as const) {
+      if (resolved[field]) {
+        resolved[field] = await this.secretsManager.resolveSecret(resolved[field]!);
+      }
+    }
+
     return resolved;
   }
 
-  private async sendHttp(data: unknown, output: Output): Promise<void> {
+  private async sendHttp(data: unknown, output: Output, signal?: AbortSignal): Promise<void> {
     if (!output.endpoint) {
       throw new Error('Endpoint is required for HTTP output');
     }
 
     // Check if this is a two-step upload flow
     if (output.response_url_field) {
-      await this.sendToUploadUrl(data, output);
+      await this.sendToUploadUrl(data, output, signal);
       return;
     }
 
@@ -104,7 +234,7 @@ export class OutputManager {
     const method = output.method || 'POST';
 
     // Determine payload and headers
-    let payload: string | undefined;
+    let payload: Payload | undefined;
     let headers: Record<string, string> = {};
     if (output.headers && typeof output.headers === 'object' && !Array.isArray(output.headers)) {
       headers = { ...output.headers };
@@ -117,88 +247,190 @@ export class OutputManager {
         headers['Content-Type'] = 'application/json';
       }
     } else if (method !== 'GET' && method !== 'DELETE') {
+      Object.assign(headers, this.getContentHeaders(output));
+
+      if (Array.isArray(data) && (output.batch_size || output.max_bytes)) {
+        await this.sendBatches(data, output, url, method, headers, signal);
+        return;
+      }
+
       // Use formatted data for non-GET/DELETE requests
-      payload = this.formatData(data, output.format);
-      headers['Content-Type'] = this.getContentType(output.format);
+      payload = this.formatData(data, output);
     }
 
-    let lastError: Error | null = null;
+    await this.sendRequest(url, method, headers, payload, output, signal);
+  }
 
-    for (let attempt = 1; attempt <= output.retryCount; attempt++) {
-      try {
-        const response = await fetch(url, {
-          method,
-          headers,
-          body: payload,
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  /**
+   * Send array results as several requests of at most `batch_size` rows and `max_bytes` bytes
+   *
+   * Each batch carries X-Batch-Index (0-based) and X-Batch-Total headers and is retried on its
+   * own. The output fails if any batch still fails after its retries; with `batch_failure: abort`
+   * no further batches are started once that happens.
+   */
+  private async sendBatches(rows: unknown[], output: Output, url: string, method: string, headers: Record<string, string>, signal?: AbortSignal): Promise<void> {
+    const batches = this.buildBatches(rows, output);
+    const total = batches.length;
+    const failures: Array<{ index: number; error: string }> = [];
+    let next = 0;
+    let delivered = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < total && !(output.batch_failure === 'abort' && failures.length > 0)) {
+        const index = next++;
+        const batchHeaders = { ...headers, 'X-Batch-Index': String(index), 'X-Batch-Total': String(total) };
+        try {
+          await this.sendRequest(url, method, batchHeaders, batches[index], output, signal, ` (batch ${index + 1}/${total})`);
+          delivered++;
+        } catch (error) {
+          // Cancellation fails the output as a whole
+          signal?.throwIfAborted();
+          failures.push({ index, error: error instanceof Error ? error.message : String(error) });
         }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(output.concurrency, total) }, worker));
+
+    if (failures.length > 0) {
+      const [first] = failures.sort((a, b) => a.index - b.index);
+      const skipped = total - delivered - failures.length;
+      throw new Error(`${failures.length} of ${total} batches failed (${delivered} delivered, ${skipped} not sent); batch ${first.index}: ${first.error}`);
+    }
+
+    this.logger.info(`Sent ${rows.length} records in ${total} batches to ${url}`);
+  }
+
+  private buildBatches(rows: unknown[], output: Output): Payload[] {
+    const batches: Payload[] = [];
+    const maxBytes = output.max_bytes;
 
-        this.logger.info(`Successfully sent ${method} request to ${url}`);
+    // Batches over max_bytes are halved until they fit; row offsets are kept for error messages
+    const add = (chunk: unknown[], offset: number): void => {
+      const payload = this.formatData(chunk, output);
+      const size = typeof payload === 'string' ? Buffer.byteLength(payload) : payload.length;
+
+      if (maxBytes && size > maxBytes) {
+        if (chunk.length === 1) {
+          throw new Error(`Record ${offset} is ${size} bytes, more than max_bytes (${maxBytes})`);
+        }
+        const half = Math.ceil(chunk.length / 2);
+        add(chunk.slice(0, half), offset);
+        add(chunk.slice(half), offset + half);
+        return;
+      }
+
+      batches.push(payload);
+    };
+
+    const batchSize = output.batch_size || rows.length;
+    for (let offset = 0; offset < rows.length; offset += batchSize) {
+      add(rows.slice(offset, offset + batchSize), offset);
+    }
+
+    return batches;
+  }
+
+  private async sendRequest(url: string, method: string, headers: Record<string, string>, payload: Payload | undefined, output: Output, signal?: AbortSignal, label = ''): Promise<void> {
+    await this.withRetries(output, `HTTP output${label}`, signal, async () => {
+      // Signed per attempt, so a retry after a long delay still carries a fresh timestamp
+      const response = await this.fetchEndpoint(output, url, {
+        method,
+        headers: output.signing ? { ...headers, ...signRequest(output.signing, { method, url, body: payload }) } : headers,
+        body: payload,
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await HttpError.fromResponse(response, `HTTP ${response.status}: ${response.statusText}`);
+      }
+    });
+
+    this.logger.info(`Successfully sent ${method} request to ${url}${label}`);
+  }
+
+  // Requests to the output endpoint carry an OAuth2 token when `auth` is configured
+  private fetchEndpoint(output: Output, url: string, init: RequestInit): Promise<Response> {
+    return output.auth ? this.oauth2.fetch(output.auth, url, init) : fetch(url, init);
+  }
+
+  /**
+   * Run `attempt` up to retryCount times, waiting between attempts according to `backoff`.
+   * Errors not covered by `retry_on`, such as a 400 response, fail straight away.
+   */
+  private async withRetries(output: Output, description: string, signal: AbortSignal | undefined, attempt: () => Promise<void>): Promise<void> {
+    const policy: RetryPolicy = {
+      attempts: Math.max(1, output.retryCount),
+      delay: output.retryDelay,
+      backoff: output.backoff,
+      maxDelay: output.max_retry_delay,
+      retryOn: output.retry_on,
+    };
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      if (attemptNumber > 1) {
+        outputRetriesTotal.inc({ type: output.type });
+      }
+
+      try {
+        await attempt();
+        outputAttemptsTotal.inc({ type: output.type, result: 'success' });
         return;
       } catch (error) {
-        lastError = error as Error;
-        this.logger.warn(`HTTP output attempt ${attempt}/${output.retryCount} failed:`, { error: error instanceof Error ? error.message : String(error) });
+        outputAttemptsTotal.inc({ type: output.type, result: 'failure' });
 
-        if (attempt < output.retryCount) {
-          await new Promise((resolve) => setTimeout(resolve, output.retryDelay));
+        // Cancelled requests are not retried
+        signal?.throwIfAborted();
+
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = isRetryable(error, policy.retryOn);
+        if (!retryable || attemptNumber >= policy.attempts) {
+          this.logger.warn(`${description} attempt ${attemptNumber}/${policy.attempts} failed${retryable ? '' : ' with a non-retryable error'}:`, { error: message });
+          throw error;
         }
+
+        const delay = retryDelay(policy, attemptNumber, error);
+        this.logger.warn(`${description} attempt ${attemptNumber}/${policy.attempts} failed, retrying in ${delay}ms:`, { error: message });
+        await sleep(delay, signal);
       }
     }
-
-    throw lastError || new Error('HTTP output failed');
   }
 
-  private async sendToUploadUrl(data: unknown, output: Output): Promise<void> {
+  private async sendToUploadUrl(data: unknown, output: Output, signal?: AbortSignal): Promise<void> {
     if (!output.endpoint) {
       throw new Error('endpoint is required for upload_url output');
     }
 
     // Step 1: Get the upload URL
-    const uploadUrlResponse = await this.getUploadUrl(output);
+    const uploadUrlResponse = await this.getUploadUrl(output, signal);
 
     // Step 2: Upload the data to the returned URL
     const uploadMethod = output.upload_method || 'POST';
-    let payload: string | undefined;
-    const uploadHeaders: Record<string, string> = {};
+    let payload: Payload | undefined;
+    let uploadHeaders: Record<string, string> = {};
 
     if (uploadMethod !== 'GET' && uploadMethod !== 'DELETE') {
-      payload = this.formatData(data, output.format);
-      uploadHeaders['Content-Type'] = this.getContentType(output.format);
+      payload = this.formatData(data, output);
+      uploadHeaders = this.getContentHeaders(output);
     }
 
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= output.retryCount; attempt++) {
-      try {
-        const response = await fetch(uploadUrlResponse.upload_url, {
-          method: uploadMethod,
-          headers: uploadHeaders,
-          body: payload,
-        });
-
-        if (!response.ok) {
-          throw new Error(`Upload failed - HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        this.logger.info(`Successfully uploaded data to ${uploadUrlResponse.upload_url} using ${uploadMethod}`);
-        return;
-      } catch (error) {
-        lastError = error as Error;
-        this.logger.warn(`Upload attempt ${attempt}/${output.retryCount} failed:`, { error: error instanceof Error ? error.message : String(error) });
+    await this.withRetries(output, 'Upload', signal, async () => {
+      const response = await fetch(uploadUrlResponse.upload_url, {
+        method: uploadMethod,
+        headers: uploadHeaders,
+        body: payload,
+        signal,
+      });
 
-        if (attempt < output.retryCount) {
-          await new Promise((resolve) => setTimeout(resolve, output.retryDelay));
-        }
+      if (!response.ok) {
+        throw await HttpError.fromResponse(response, `Upload failed - HTTP ${response.status}: ${response.statusText}`);
       }
-    }
+    });
 
-    throw lastError || new Error('Upload failed');
+    this.logger.info(`Successfully uploaded data to ${uploadUrlResponse.upload_url} using ${uploadMethod}`);
   }
 
-  private async getUploadUrl(output: Output): Promise<{ upload_url: string }> {
+  private async getUploadUrl(output: Output, signal?: AbortSignal): Promise<{ upload_url: string }> {
     const url = this.buildUrl(output.endpoint!, output.query_params);
     const method = output.method || 'POST';
 
@@ -215,10 +447,15 @@ export class OutputManager {
       }
     }
 
-    const response = await fetch(url, {
+    if (output.signing) {
+      Object.assign(headers, signRequest(output.signing, { method, url, body: payload }));
+    }
+
+    const response = await this.fetchEndpoint(output, url, {
       method,
       headers,
       body: payload,
+      signal,
     });
 
     if (!response.ok) {
@@ -261,7 +498,21 @@ export class OutputManager {
     return url.toString();
   }
 
-  private async saveToFile(data: unknown, output: Output): Promise<void> {
+  private async saveToFile(data: unknown, output: Output, signal?: AbortSignal): Promise<void> {
+    const filePath = await this.prepareFilePath(output);
+    const content = this.formatData(data, output);
+    try {
+      await writeFile(filePath, content, { signal });
+      outputAttemptsTotal.inc({ type: output.type, result: 'success' });
+    } catch (error) {
+      outputAttemptsTotal.inc({ type: output.type, result: 'failure' });
+      throw error;
+    }
+
+    this.logger.info(`Data saved to file: ${filePath}`);
+  }
+
+  private async prepareFilePath(output: Output): Promise<string> {
     if (!output.path) {
       throw new Error('Path is required for file output');
     }
@@ -274,29 +525,84 @@ export class OutputManager {
       await mkdir(dir, { recursive: true });
     }
 
-    const content = this.formatData(data, output.format);
-    await writeFile(filePath, content);
+    return filePath;
+  }
+
+  private async saveToS3(data: unknown, output: Output, signal?: AbortSignal, context?: OutputContext): Promise<void> {
+    const { client, key } = this.createS3Client(output, context);
+    const content = this.formatData(data, output);
+    const body = typeof content === 'string' ? new TextEncoder().encode(content) : content;
 
-    this.logger.info(`Data saved to file: ${filePath}`);
+    await this.withRetries(output, 'S3 upload', signal, () => client.putObject(key, body, this.getContentHeaders(output), signal));
+
+    this.logger.info(`Uploaded ${body.length} bytes to s3://${output.bucket}/${key}`);
   }
 
-  private async saveToS3(data: unknown, output: Output): Promise<void> {
-    // Local S3-compatible storage (MinIO) implementation
-    // This would work in VPC without external dependencies
-    throw new Error('S3 output not implemented for local-only mode');
+  private createS3Client(output: Output, context?: OutputContext): { client: S3Client; key: string } {
+    if (!output.bucket || !output.key) {
+      throw new Error('Bucket and key are required for S3 output');
+    }
+
+    // Fall back to the standard AWS environment variables, e.g. for instance roles injected by the platform
+    const accessKeyId = output.accessKeyId || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = output.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('S3 output requires accessKeyId and secretAccessKey (or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY)');
+    }
+
+    const client = new S3Client({
+      bucket: output.bucket,
+      region: output.region || process.env.AWS_REGION || 'us-east-1',
+      endpoint: output.endpoint,
+      forcePathStyle: output.forcePathStyle,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+        sessionToken: output.sessionToken || (output.accessKeyId ? undefined : process.env.AWS_SESSION_TOKEN),
+      },
+    });
+
+    return { client, key: renderTemplate(output.key, this.templateValues(context)) };
   }
 
-  private formatData(data: unknown, format: 'json' | 'csv' | 'parquet'): string {
-    switch (format) {
+  private templateValues(context?: OutputContext): Record<string, string> {
+    const iso = (context?.startedAt ?? new Date()).toISOString();
+    const values: Record<string, string> = {
+      date: iso.slice(0, 10),
+      timestamp: iso.replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      year: iso.slice(0, 4),
+      month: iso.slice(5, 7),
+      day: iso.slice(8, 10),
+      hour: iso.slice(11, 13),
+    };
+
+    if (context) {
+      values.job_id = context.jobId;
+      values.run_id = context.runId;
+    }
+
+    return values;
+  }
+
+  private formatData(data: unknown, output: Output): Payload {
+    const content = this.serializeData(data, output);
+    return output.compression === 'none' ? content : compress(content, output.compression);
+  }
+
+  private serializeData(data: unknown, output: Output): Payload {
+    switch (output.format) {
       case 'json':
         return JSON.stringify(data, null, 2);
 
+      case 'ndjson':
+        // One compact JSON document per row
+        return (Array.isArray(data) ? data : [data]).map((row) => JSON.stringify(row)).join('\n') + '\n';
+
       case 'csv':
         return this.convertToCsv(data);
 
       case 'parquet':
-        // Would need a local parquet library
-        throw new Error('Parquet format not supported in local-only mode');
+        return toParquet(data, output.parquet);
 
       default:
         return JSON.stringify(data, null, 2);
@@ -327,19 +633,7 @@ export class OutputManager {
     for (const row of normalizedData) {
       if (!row || typeof row !== 'object') continue;
 
-      const values = headers.map((header) => {
-        const value = row[header];
-        if (value === null || value === undefined) {
-          return '';
-        }
-
-        const stringValue = String(value);
-        if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-
-        return stringValue;
-      });
+      const values = headers.map((header) => escapeCsvValue(row[header]));
 
       csvRows.push(values.join(','));
     }
@@ -347,10 +641,21 @@ export class OutputManager {
     return csvRows.join('\n');
   }
 
-  private getContentType(format: 'json' | 'csv' | 'parquet'): string {
+  private getContentHeaders(output: Output): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': this.getContentType(output.format) };
+    const encoding = contentEncoding(output.compression);
+    if (encoding) {
+      headers['Content-Encoding'] = encoding;
+    }
+    return headers;
+  }
+
+  private getContentType(format: Output['format']): string {
     switch (format) {
       case 'json':
         return 'application/json';
+      case 'ndjson':
+        return 'application/x-ndjson';
       case 'csv':
         return 'text/csv';
       case 'parquet':
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { createOutputStream, FileSink, HttpSink } from './output-stream';
+import { createRowEncoder } from '../utils/row-encoder';
+import { createCompressor } from '../utils/compression';
+
+let dir: string;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createOutputStream', () => {
+  it('should only move the file into place once the stream is closed', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'qb-stream-'));
+    const path = join(dir, 'export.ndjson.gz');
+    const stream = createOutputStream(createRowEncoder('ndjson'), new FileSink(path), createCompressor('gzip'));
+
+    await stream.write([{ id: 1 }, { id: 2 }]);
+    await stream.write([{ id: 3 }]);
+    expect(existsSync(path)).toBe(false);
+
+    await stream.close();
+    expect(gunzipSync(new Uint8Array(readFileSync(path))).toString()).toBe('{"id":1}\n{"id":2}\n{"id":3}\n');
+  });
+
+  it('should leave nothing behind when aborted', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'qb-stream-'));
+    const stream = createOutputStream(createRowEncoder('json'), new FileSink(join(dir, 'export.json')));
+
+    await stream.write([{ id: 1 }]);
+    await stream.abort();
+
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('should send the rows as one chunked HTTP request body', async () => {
+    const received: Array<{ encoding: string | null; body: string }> = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ encoding: request.headers.get('transfer-encoding'), body: await request.text() });
+        return new Response(null, { status: 204 });
+      },
+    });
+
+    try {
+      const sink = new HttpSink(`http://127.0.0.1:${server.port}/ingest`, { method: 'POST', headers: { 'Content-Type': 'text/csv' } });
+      const stream = createOutputStream(createRowEncoder('csv'), sink);
+      await stream.write([{ id: 1, name: 'a' }]);
+      await stream.write([{ id: 2, name: 'b' }]);
+      await stream.close();
+    } finally {
+      server.stop(true);
+    }
+
+    expect(received).toEqual([{ encoding: 'chunked', body: 'id,name\n1,a\n2,b' }]);
+  });
+
+  it('should fail when the server rejects the request', async () => {
+    const server = Bun.serve({ port: 0, fetch: () => new Response('too large', { status: 413, statusText: 'Payload Too Large' }) });
+
+    try {
+      const stream = createOutputStream(createRowEncoder('json'), new HttpSink(`http://127.0.0.1:${server.port}/`, { method: 'POST', headers: {} }));
+      await stream.write([{ id: 1 }]);
+      await expect(stream.close()).rejects.toThrow('HTTP 413');
+    } finally {
+      server.stop(true);
+    }
+  });
+});
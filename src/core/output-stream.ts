@@ -0,0 +1,188 @@
+import { open, rename, unlink } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import type { Transform } from 'stream';
+import { RowEncoder } from '../utils/row-encoder';
+import { S3Upload } from '../utils/s3-client';
+
+/**
+ * An output that receives rows batch by batch instead of as one payload
+ */
+export interface OutputStream {
+  write(rows: unknown[]): Promise<void>;
+  // Finish the document and wait for the destination to accept it
+  close(): Promise<void>;
+  // Give up on the output, leaving no partial file, upload or request behind
+  abort(): Promise<void>;
+}
+
+// Destination for the serialized (and possibly compressed) bytes of a stream
+export interface ByteSink {
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+export function createOutputStream(encoder: RowEncoder, sink: ByteSink, compressor?: Transform): OutputStream {
+  const target = compressor ? new CompressedSink(compressor, sink) : sink;
+  const encode = (text: string): Uint8Array<ArrayBuffer> => new TextEncoder().encode(text);
+
+  return {
+    write: async (rows) => {
+      const text = encoder.encode(rows);
+      if (text) {
+        await target.write(encode(text));
+      }
+    },
+    close: async () => {
+      const text = encoder.finish();
+      if (text) {
+        await target.write(encode(text));
+      }
+      await target.close();
+    },
+    abort: () => target.abort(),
+  };
+}
+
+/**
+ * Pipes chunks through a zlib compressor, forwarding compressed output as it is produced
+ */
+class CompressedSink implements ByteSink {
+  private pending: Uint8Array<ArrayBuffer>[] = [];
+  private error: Error | null = null;
+
+  constructor(private compressor: Transform, private sink: ByteSink) {
+    compressor.on('data', (chunk: Uint8Array) => this.pending.push(new Uint8Array(chunk)));
+    compressor.on('error', (error: Error) => {
+      this.error = error;
+    });
+  }
+
+  async write(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.compressor.write(chunk, (error) => (error ? reject(error) : resolve()));
+    });
+    await this.forward();
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.compressor.once('end', resolve);
+      this.compressor.once('error', reject);
+      this.compressor.end();
+    });
+    await this.forward();
+    await this.sink.close();
+  }
+
+  async abort(): Promise<void> {
+    this.compressor.destroy();
+    this.pending = [];
+    await this.sink.abort();
+  }
+
+  private async forward(): Promise<void> {
+    if (this.error) throw this.error;
+
+    const chunks = this.pending;
+    this.pending = [];
+    for (const chunk of chunks) {
+      await this.sink.write(chunk);
+    }
+  }
+}
+
+/**
+ * Writes to a temporary file next to the target and renames it into place on close,
+ * so readers never see a partial export
+ */
+export class FileSink implements ByteSink {
+  private handle: FileHandle | null = null;
+  private readonly tempPath: string;
+
+  constructor(private path: string) {
+    this.tempPath = `${path}.${process.pid}.partial`;
+  }
+
+  async write(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    this.handle ??= await open(this.tempPath, 'w');
+    await this.handle.write(chunk);
+  }
+
+  async close(): Promise<void> {
+    this.handle ??= await open(this.tempPath, 'w');
+    await this.handle.close();
+    this.handle = null;
+    await rename(this.tempPath, this.path);
+  }
+
+  async abort(): Promise<void> {
+    await this.handle?.close().catch(() => undefined);
+    this.handle = null;
+    await unlink(this.tempPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Sends the body of a single HTTP request as it is written, using chunked transfer encoding
+ */
+export class HttpSink implements ByteSink {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private response: Promise<Response>;
+  // Rejects if the request ends, e.g. with an error response, before the body is complete
+  private interrupted: Promise<never>;
+  private controller = new AbortController();
+
+  constructor(url: string, init: { method: string; headers: Record<string, string> }, signal?: AbortSignal) {
+    const body = new TransformStream<Uint8Array, Uint8Array>();
+    this.writer = body.writable.getWriter();
+
+    const requestSignal = signal ? AbortSignal.any([signal, this.controller.signal]) : this.controller.signal;
+    this.response = fetch(url, { ...init, body: body.readable, signal: requestSignal, duplex: 'half' } as RequestInit);
+    this.interrupted = this.response.then((response) => {
+      throw new Error(`HTTP ${response.status}: ${response.statusText} before the body was sent`);
+    });
+
+    // Failures surface from write/close; avoid unhandled rejections in between
+    this.response.catch(() => undefined);
+    this.interrupted.catch(() => undefined);
+  }
+
+  async write(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    // Wait for the request to consume earlier chunks before queueing more
+    await Promise.race([this.writer.ready, this.interrupted]);
+    await Promise.race([this.writer.write(chunk), this.interrupted]);
+  }
+
+  async close(): Promise<void> {
+    await Promise.race([this.writer.close(), this.response]);
+    const response = await this.response;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  async abort(): Promise<void> {
+    this.controller.abort(new Error('Output stream aborted'));
+    await this.writer.abort().catch(() => undefined);
+  }
+}
+
+/**
+ * Streams into an S3 object, buffering at most one multipart part
+ */
+export class S3Sink implements ByteSink {
+  constructor(private upload: S3Upload) {}
+
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    return this.upload.write(chunk);
+  }
+
+  close(): Promise<void> {
+    return this.upload.complete();
+  }
+
+  abort(): Promise<void> {
+    return this.upload.abort();
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test';
+import { RunHistory, RunRecord } from './run-history';
+import { Logger } from '../utils/logger';
+
+function makeRun(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    runId: crypto.randomUUID(),
+    jobId: 'test-job',
+    trigger: 'cron',
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    stages: {},
+    outputs: [],
+    ...overrides,
+  };
+}
+
+describe('RunHistory', () => {
+  it('should record a run from start to finish', () => {
+    const history = new RunHistory({ file: ':memory:' }, new Logger('error'));
+    const run = makeRun();
+
+    history.recordStart(run);
+    history.recordFinish({
+      ...run,
+      status: 'failed',
+      duration: 120,
+      stages: { input: 100, transform: 20 },
+      error: { message: 'boom', stage: 'output' },
+      outputs: [{ index: 0, type: 'webhook', status: 'failed', recordCount: 0, duration: 5, error: 'HTTP 500' }],
+    });
+
+    const stored = history.getRun(run.runId);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.stages).toEqual({ input: 100, transform: 20, output: undefined });
+    expect(stored?.error?.stage).toBe('output');
+    expect(stored?.outputs[0].error).toBe('HTTP 500');
+
+    history.close();
+  });
+
+  it('should prune runs beyond the per-job cap', () => {
+    const history = new RunHistory({ file: ':memory:', maxRunsPerJob: 2 }, new Logger('error'));
+
+    for (let i = 0; i < 4; i++) {
+      history.recordStart(makeRun({ startedAt: new Date(Date.now() - i * 1000).toISOString() }));
+    }
+    history.recordStart(makeRun({ jobId: 'other-job' }));
+
+    expect(history.prune()).toBe(2);
+    expect(history.listRuns('test-job')).toHaveLength(2);
+    expect(history.listRuns('other-job')).toHaveLength(1);
+
+    history.close();
+  });
+
+  it('should prune runs older than the retention period', () => {
+    const history = new RunHistory({ file: ':memory:', retentionDays: 7 }, new Logger('error'));
+
+    history.recordStart(makeRun({ startedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() }));
+    history.recordStart(makeRun());
+
+    expect(history.prune()).toBe(1);
+    expect(history.listRuns()).toHaveLength(1);
+
+    history.close();
+  });
+});
@@ -0,0 +1,276 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from '../utils/logger';
+
+export type RunTrigger = 'cron' | 'manual';
+
+export type RunStage = 'input' | 'transform' | 'output';
+
+export interface RunHistoryOptions {
+  file: string;
+  // Open an existing database for reading only (used by CLI commands)
+  readonly?: boolean;
+  retentionDays?: number;
+  maxRunsPerJob?: number;
+}
+
+export interface OutputRunRecord {
+  index: number;
+  type: string;
+  target?: string;
+  // queued: delivery failed and the data was saved to the outbox for redelivery
+  status: 'completed' | 'failed' | 'queued';
+  recordCount: number;
+  duration: number;
+  error?: string;
+}
+
+export interface RunRecord {
+  runId: string;
+  jobId: string;
+  trigger: RunTrigger;
+  status: string;
+  startedAt: string;
+  finishedAt?: string;
+  duration?: number;
+  stages: Partial<Record<RunStage, number>>;
+  recordCount?: number;
+  watermark?: string;
+  error?: {
+    message: string;
+    stage?: RunStage;
+    stack?: string;
+  };
+  outputs: OutputRunRecord[];
+}
+
+interface RunRow {
+  run_id: string;
+  job_id: string;
+  trigger: RunTrigger;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  input_ms: number | null;
+  transform_ms: number | null;
+  output_ms: number | null;
+  record_count: number | null;
+  watermark: string | null;
+  error_message: string | null;
+  error_stage: RunStage | null;
+  error_stack: string | null;
+}
+
+interface OutputRow {
+  output_index: number;
+  type: string;
+  target: string | null;
+  status: 'completed' | 'failed';
+  record_count: number;
+  duration_ms: number;
+  error: string | null;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_MAX_RUNS_PER_JOB = 1000;
+
+/**
+ * Persistent job run history
+ *
+ * Every execution is recorded in an embedded SQLite database so runs can be
+ * inspected after the process that executed them is gone. Old runs are pruned
+ * by age and by a per-job cap.
+ */
+export class RunHistory {
+  private db: Database;
+  private retentionDays: number;
+  private maxRunsPerJob: number;
+
+  constructor(options: RunHistoryOptions, private logger: Logger) {
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    this.maxRunsPerJob = options.maxRunsPerJob ?? DEFAULT_MAX_RUNS_PER_JOB;
+
+    if (options.readonly) {
+      this.db = new Database(options.file, { readonly: true });
+      this.db.exec('PRAGMA busy_timeout = 5000');
+      return;
+    }
+
+    if (options.file !== ':memory:') {
+      mkdirSync(dirname(options.file), { recursive: true });
+    }
+
+    this.db = new Database(options.file, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec('PRAGMA foreign_keys = ON');
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS runs (
+        run_id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        input_ms INTEGER,
+        transform_ms INTEGER,
+        output_ms INTEGER,
+        record_count INTEGER,
+        watermark TEXT,
+        error_message TEXT,
+        error_stage TEXT,
+        error_stack TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_runs_job_started ON runs (job_id, started_at DESC);
+      CREATE TABLE IF NOT EXISTS run_outputs (
+        run_id TEXT NOT NULL REFERENCES runs (run_id) ON DELETE CASCADE,
+        output_index INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        target TEXT,
+        status TEXT NOT NULL,
+        record_count INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        error TEXT,
+        PRIMARY KEY (run_id, output_index)
+      );
+    `);
+  }
+
+  recordStart(run: RunRecord): void {
+    this.db
+      .query('INSERT INTO runs (run_id, job_id, trigger, status, started_at) VALUES (?, ?, ?, ?, ?)')
+      .run(run.runId, run.jobId, run.trigger, run.status, run.startedAt);
+  }
+
+  recordFinish(run: RunRecord): void {
+    const update = this.db.transaction(() => {
+      this.db
+        .query(
+          `UPDATE runs SET status = ?, finished_at = ?, duration_ms = ?, input_ms = ?, transform_ms = ?, output_ms = ?,
+             record_count = ?, watermark = ?, error_message = ?, error_stage = ?, error_stack = ?
+           WHERE run_id = ?`
+        )
+        .run(
+          run.status,
+          run.finishedAt ?? new Date().toISOString(),
+          run.duration ?? null,
+          run.stages.input ?? null,
+          run.stages.transform ?? null,
+          run.stages.output ?? null,
+          run.recordCount ?? null,
+          run.watermark ?? null,
+          run.error?.message ?? null,
+          run.error?.stage ?? null,
+          run.error?.stack ?? null,
+          run.runId
+        );
+
+      const insertOutput = this.db.query(
+        'INSERT OR REPLACE INTO run_outputs (run_id, output_index, type, target, status, record_count, duration_ms, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      );
+      for (const output of run.outputs) {
+        insertOutput.run(run.runId, output.index, output.type, output.target ?? null, output.status, output.recordCount, output.duration, output.error ?? null);
+      }
+    });
+
+    update();
+  }
+
+  /**
+   * Delete runs older than the retention period and beyond the per-job cap
+   */
+  prune(): number {
+    let removed = 0;
+
+    if (this.retentionDays > 0) {
+      const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      removed += this.db.query('DELETE FROM runs WHERE started_at < ?').run(cutoff).changes;
+    }
+
+    if (this.maxRunsPerJob > 0) {
+      removed += this.db
+        .query(
+          `DELETE FROM runs WHERE run_id IN (
+             SELECT run_id FROM (
+               SELECT run_id, ROW_NUMBER() OVER (PARTITION BY job_id ORDER BY started_at DESC) AS position FROM runs
+             ) WHERE position > ?
+           )`
+        )
+        .run(this.maxRunsPerJob).changes;
+    }
+
+    if (removed > 0) {
+      this.logger.debug(`Pruned ${removed} runs from history`);
+    }
+
+    return removed;
+  }
+
+  listRuns(jobId?: string, limit = 20): RunRecord[] {
+    const rows = jobId
+      ? this.db.query<RunRow, [string, number]>('SELECT * FROM runs WHERE job_id = ? ORDER BY started_at DESC LIMIT ?').all(jobId, limit)
+      : this.db.query<RunRow, [number]>('SELECT * FROM runs ORDER BY started_at DESC LIMIT ?').all(limit);
+
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * Start time of the job's latest completed run
+   */
+  lastSuccessAt(jobId: string): string | undefined {
+    const row = this.db
+      .query<{ started_at: string }, [string]>("SELECT started_at FROM runs WHERE job_id = ? AND status = 'completed' ORDER BY started_at DESC LIMIT 1")
+      .get(jobId);
+    return row?.started_at;
+  }
+
+  getRun(runId: string): RunRecord | undefined {
+    const row = this.db.query<RunRow, [string]>('SELECT * FROM runs WHERE run_id = ?').get(runId);
+    return row ? this.toRecord(row) : undefined;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toRecord(row: RunRow): RunRecord {
+    const outputs = this.db
+      .query<OutputRow, [string]>('SELECT * FROM run_outputs WHERE run_id = ? ORDER BY output_index')
+      .all(row.run_id)
+      .map((output) => ({
+        index: output.output_index,
+        type: output.type,
+        target: output.target ?? undefined,
+        status: output.status,
+        recordCount: output.record_count,
+        duration: output.duration_ms,
+        error: output.error ?? undefined,
+      }));
+
+    return {
+      runId: row.run_id,
+      jobId: row.job_id,
+      trigger: row.trigger,
+      status: row.status,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at ?? undefined,
+      duration: row.duration_ms ?? undefined,
+      stages: {
+        input: row.input_ms ?? undefined,
+        transform: row.transform_ms ?? undefined,
+        output: row.output_ms ?? undefined,
+      },
+      recordCount: row.record_count ?? undefined,
+      watermark: row.watermark ?? undefined,
+      error: row.error_message ? { message: row.error_message, stage: row.error_stage ?? undefined, stack: row.error_stack ?? undefined } : undefined,
+      outputs,
+    };
+  }
+}
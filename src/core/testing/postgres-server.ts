@@ -0,0 +1,119 @@
+import { createServer, AddressInfo, Server, Socket } from 'net';
+
+const cstring = (value: string): number[] => [...Buffer.from(value), 0];
+
+function int(value: number, bytes: 2 | 4): number[] {
+  const buffer = Buffer.alloc(bytes);
+  if (bytes === 2) buffer.writeInt16BE(value);
+  else buffer.writeInt32BE(value);
+  return [...buffer];
+}
+
+const message = (type: string, body: number[] = []): Uint8Array => new Uint8Array([type.charCodeAt(0), ...int(body.length + 4, 4), ...body]);
+
+const error = (code: string, text: string): Uint8Array => message('E', [...cstring('SERROR'), ...cstring(`C${code}`), ...cstring(`M${text}`), 0]);
+
+/**
+ * Stand-in PostgreSQL server for tests, speaking the simple query protocol
+ *
+ * It records each statement and, like the real thing, refuses writes inside a READ ONLY
+ * transaction. Every other statement returns one text column "one" holding '1'.
+ */
+export class PostgresServer {
+  statements: string[] = [];
+  // Connections accepted so far
+  connections = 0;
+  // The next statements to fail the way they do on a backend that is shutting down
+  failures = 0;
+
+  private server: Server = createServer((socket) => this.serve(socket));
+  private sockets = new Set<Socket>();
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  get url(): string {
+    return `postgres://querybird@127.0.0.1:${(this.server.address() as AddressInfo).port}/app?sslmode=disable`;
+  }
+
+  reset(): void {
+    this.statements = [];
+    this.connections = 0;
+    this.failures = 0;
+  }
+
+  // Cut every open connection, as a database restart or network drop would
+  drop(): void {
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+  }
+
+  close(): void {
+    this.drop();
+    this.server.close();
+  }
+
+  private serve(socket: Socket): void {
+    this.connections++;
+    this.sockets.add(socket);
+
+    let buffer: number[] = [];
+    let started = false;
+    let readOnly = false;
+    let status = 'I';
+    const reply = (...messages: Uint8Array[]): void => {
+      for (const part of [...messages, message('Z', [status.charCodeAt(0)])]) socket.write(part);
+    };
+
+    socket.on('error', () => undefined);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('data', (chunk) => {
+      buffer.push(...chunk);
+      while (true) {
+        const offset = started ? 1 : 0;
+        if (buffer.length < offset + 4) return;
+        const length = Buffer.from(buffer.slice(offset, offset + 4)).readInt32BE();
+        if (buffer.length < offset + length) return;
+        const type = started ? String.fromCharCode(buffer[0]) : '';
+        const body = Buffer.from(buffer.slice(offset + 4, offset + length - 1));
+        buffer = buffer.slice(offset + length);
+
+        if (!started) {
+          started = true;
+          reply(message('R', int(0, 4)));
+          continue;
+        }
+        if (type === 'X') {
+          socket.end();
+          return;
+        }
+
+        const sql = body.toString('utf-8');
+        this.statements.push(sql);
+        const verb = sql.split(' ')[0].toUpperCase();
+
+        if (this.failures > 0) {
+          this.failures--;
+          reply(error('57P01', 'terminating connection due to administrator command'));
+        } else if (verb === 'BEGIN') {
+          readOnly = sql.toUpperCase() === 'BEGIN READ ONLY';
+          status = 'T';
+          reply(message('C', cstring('BEGIN')));
+        } else if (verb === 'COMMIT' || verb === 'ROLLBACK') {
+          readOnly = false;
+          status = 'I';
+          reply(message('C', cstring(verb)));
+        } else if (verb === 'SET') {
+          reply(message('C', cstring('SET')));
+        } else if (verb !== 'SELECT' && readOnly) {
+          status = 'E';
+          reply(error('25006', `cannot execute ${verb} in a read-only transaction`));
+        } else {
+          const column = [...cstring('one'), ...int(0, 4), ...int(0, 2), ...int(25, 4), ...int(-1, 2), ...int(-1, 4), ...int(0, 2)];
+          reply(message('T', [...int(1, 2), ...column]), message('D', [...int(1, 2), ...int(1, 4), ...Buffer.from('1')]), message('C', cstring(`${verb} 1`)));
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtemp, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WatermarkStore, maxWatermark } from './watermark-store';
+import { Logger } from '../utils/logger';
+
+describe('maxWatermark', () => {
+  it('should compare numeric values numerically', () => {
+    expect(maxWatermark([{ id: 9 }, { id: 10 }, { id: 2 }], 'id', '1')).toBe('10');
+  });
+
+  it('should compare dates by time', () => {
+    const rows = [{ updated_at: new Date('2024-03-01T00:00:00Z') }, { updated_at: new Date('2024-02-01T00:00:00Z') }];
+    expect(maxWatermark(rows, 'updated_at', '2024-01-01T00:00:00Z')).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should compare integers beyond 2^53 exactly', () => {
+    expect(maxWatermark([{ id: '9007199254740993' }, { id: 9007199254740992n }], 'id', '9007199254740992')).toBe('9007199254740993');
+    expect(maxWatermark([{ id: '10000000000000000001' }], 'id', '9999999999999999999')).toBe('10000000000000000001');
+  });
+
+  it('should compare timestamps down to microseconds', () => {
+    const rows = [{ updated_at: '2024-03-01 10:00:00.123457+00' }, { updated_at: '2024-03-01 10:00:00.1234+00' }];
+    expect(maxWatermark(rows, 'updated_at', '2024-03-01 10:00:00.123456+00')).toBe('2024-03-01 10:00:00.123457+00');
+    expect(maxWatermark([{ updated_at: '2024-03-01 10:00:00.123+00' }], 'updated_at', '2024-03-01 10:00:00.123456+00')).toBe('2024-03-01 10:00:00.123456+00');
+  });
+
+  it('should keep the current value when no row is newer', () => {
+    expect(maxWatermark([{ id: 1 }, { other: 5 }, null], 'id', '3')).toBe('3');
+  });
+});
+
+describe('WatermarkStore', () => {
+  const config = { column: 'id', initial_value: '0' };
+
+  it('should return the initial value and persist committed values', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'qb-watermarks-'));
+    const store = new WatermarkStore(dir, new Logger('error'));
+
+    expect(await store.get('test-job', config)).toBe('0');
+
+    await store.commit('test-job', config, '42');
+    expect(await store.get('test-job', config)).toBe('42');
+
+    const record = JSON.parse(await readFile(join(dir, 'test-job.json'), 'utf-8'));
+    expect(record.column).toBe('id');
+  });
+
+  it('should fall back to the initial value when the column changes', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'qb-watermarks-'));
+    const store = new WatermarkStore(dir, new Logger('error'));
+
+    await store.commit('test-job', config, '42');
+    expect(await store.get('test-job', { column: 'updated_at', initial_value: '2024-01-01' })).toBe('2024-01-01');
+  });
+});
@@ -0,0 +1,135 @@
+import { readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { Logger } from '../utils/logger';
+import { writeFileAtomic } from '../utils/atomic-write';
+
+export interface WatermarkConfig {
+  column: string;
+  initial_value: string;
+  store_path?: string;
+}
+
+interface WatermarkRecord {
+  job_id: string;
+  column: string;
+  value: string;
+  updated_at: string;
+}
+
+/**
+ * File-based watermark store
+ *
+ * Each job's watermark lives in its own JSON file (default: <watermarksDir>/<jobId>.json).
+ * Writes go to a temporary file first and are renamed into place so a crash
+ * never leaves a half-written watermark behind.
+ */
+export class WatermarkStore {
+  constructor(private watermarksDir: string, private logger: Logger) {}
+
+  async get(jobId: string, config: WatermarkConfig): Promise<string> {
+    const filePath = this.resolvePath(jobId, config);
+
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      const record = JSON.parse(content) as WatermarkRecord;
+
+      if (record.column !== config.column) {
+        this.logger.warn(`Watermark column for job ${jobId} changed from '${record.column}' to '${config.column}', using initial value`);
+        return config.initial_value;
+      }
+
+      return record.value;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return config.initial_value;
+      }
+      throw new Error(`Failed to read watermark for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async commit(jobId: string, config: WatermarkConfig, value: string): Promise<void> {
+    const filePath = this.resolvePath(jobId, config);
+    const record: WatermarkRecord = {
+      job_id: jobId,
+      column: config.column,
+      value,
+      updated_at: new Date().toISOString(),
+    };
+
+    await writeFileAtomic(filePath, JSON.stringify(record, null, 2));
+
+    this.logger.info(`Committed watermark for job ${jobId}: ${config.column} = ${value}`);
+  }
+
+  private resolvePath(jobId: string, config: WatermarkConfig): string {
+    if (!config.store_path) {
+      return join(this.watermarksDir, `${jobId}.json`);
+    }
+    return isAbsolute(config.store_path) ? config.store_path : join(this.watermarksDir, config.store_path);
+  }
+}
+
+/**
+ * Return the larger of the current watermark and the values of `column` in `rows`.
+ * Integers compare exactly (IDs beyond 2^53 included), other numbers numerically,
+ * timestamps by time down to their fractional digits and everything else as strings.
+ *
+ * Drivers return timestamp columns as `Date`, which only holds milliseconds; select the
+ * column as text (e.g. `updated_at::text`) to keep PostgreSQL's microseconds.
+ */
+export function maxWatermark(rows: unknown[], column: string, current: string | undefined): string | undefined {
+  let max = current;
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object' || !(column in row)) continue;
+
+    const value = normalizeWatermarkValue((row as Record<string, unknown>)[column]);
+    if (value === undefined) continue;
+
+    if (max === undefined || compareWatermarks(value, max) > 0) {
+      max = value;
+    }
+  }
+
+  return max;
+}
+
+function normalizeWatermarkValue(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+const INTEGER = /^-?\d+$/;
+
+function compareWatermarks(a: string, b: string): number {
+  if (INTEGER.test(a) && INTEGER.test(b)) {
+    const intA = BigInt(a);
+    const intB = BigInt(b);
+    return intA < intB ? -1 : intA > intB ? 1 : 0;
+  }
+
+  const numA = Number(a);
+  const numB = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && !Number.isNaN(numA) && !Number.isNaN(numB)) {
+    return numA - numB;
+  }
+
+  const timeA = Date.parse(a);
+  const timeB = Date.parse(b);
+  if (!Number.isNaN(timeA) && !Number.isNaN(timeB)) {
+    // Date.parse stops at milliseconds, so break ties on the remaining digits
+    return timeA - timeB || compareStrings(subMillisecond(a), subMillisecond(b));
+  }
+
+  return compareStrings(a, b);
+}
+
+function subMillisecond(timestamp: string): string {
+  const fraction = /:\d{2}[.,](\d+)/.exec(timestamp)?.[1] ?? '';
+  return fraction.slice(3).padEnd(6, '0');
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
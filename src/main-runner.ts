@@ -8,6 +8,11 @@ import { PostgresSetup } from './utils/postgres-setup';
 import { MysqlSetup } from './utils/mysql-setup';
 import { ConfigFromSecrets } from './utils/config-from-secrets';
 import { getQueryBirdPaths } from './utils/path-resolver';
+import { RunHistory, RunRecord } from './core/run-history';
+import { JobStatusStore, RunSummary } from './core/job-status-store';
+import { ControlServer } from './core/control-server';
+import { Outbox } from './core/outbox';
+import { OutputManager } from './core/output-manager';
 import { mkdir, access } from 'fs/promises';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
@@ -54,8 +59,17 @@ program
   .option('--log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .option('--watch-secrets', 'Enable hot reloading of secrets file', true)
   .option('--no-watch-secrets', 'Disable hot reloading of secrets file')
+  .option('--history-retention-days <days>', 'Days of run history to keep (0 keeps all)', '30')
+  .option('--history-max-runs <num>', 'Max runs kept in history per job (0 keeps all)', '1000')
+  .option('--outbox-interval <ms>', 'How often to retry undelivered outputs saved in the outbox (0 disables)', '60000')
+  .option('--api-port <port>', 'Enable the control API on this port (default: QB_API_PORT)', process.env.QB_API_PORT)
+  .option('--api-host <host>', 'Host the control API binds to (default: QB_API_HOST or 127.0.0.1)', process.env.QB_API_HOST || '127.0.0.1')
+  .option('--api-socket <path>', 'Enable the control API on a unix socket instead of a port')
+  .option('--api-token <token>', 'Bearer token for the control API (default: QB_API_TOKEN)')
+  .option('--public-port <port>', 'Serve only /healthz, /readyz and /metrics on this port (default: QB_PUBLIC_PORT)', process.env.QB_PUBLIC_PORT)
+  .option('--public-host <host>', 'Host the public endpoints bind to (default: QB_PUBLIC_HOST or 127.0.0.1)', process.env.QB_PUBLIC_HOST || '127.0.0.1')
   .description('Start the job scheduler and watch configs')
-  .action(async (opts: { encryptionKey?: string; maxConcurrent: string; logLevel: LogLevelName; watchSecrets: boolean }) => {
+  .action(async (opts: { encryptionKey?: string; maxConcurrent: string; logLevel: LogLevelName; watchSecrets: boolean; historyRetentionDays: string; historyMaxRuns: string; outboxInterval: string; apiPort?: string; apiHost: string; apiSocket?: string; apiToken?: string; publicPort?: string; publicHost: string }) => {
     const logger = new Logger(opts.logLevel);
 
     try {
@@ -84,10 +98,34 @@ program
         encryptionPassword: opts.encryptionKey,
         maxConcurrentJobs: parseInt(opts.maxConcurrent, 10),
         watchSecrets: opts.watchSecrets,
+        watermarksDir: paths.watermarks,
+        statusDir: paths.status,
+        outboxDir: paths.outbox,
+        outboxInterval: parseInt(opts.outboxInterval, 10),
+        history: {
+          file: paths.historyFile,
+          retentionDays: parseInt(opts.historyRetentionDays, 10),
+          maxRunsPerJob: parseInt(opts.historyMaxRuns, 10),
+        },
       });
 
       await runner.start();
 
+      let controlServer: ControlServer | null = null;
+      if (opts.apiPort || opts.apiSocket || opts.publicPort) {
+        controlServer = new ControlServer({
+          runner,
+          logger,
+          host: opts.apiHost,
+          port: opts.apiPort ? parseInt(opts.apiPort, 10) : undefined,
+          socket: opts.apiSocket,
+          publicHost: opts.publicHost,
+          publicPort: opts.publicPort ? parseInt(opts.publicPort, 10) : undefined,
+          token: opts.apiToken || process.env.QB_API_TOKEN,
+        });
+        controlServer.start();
+      }
+
       logger.info('QueryBird started successfully');
       logger.info(`Config directory: ${configDir}`);
       logger.info(`Secrets directory: ${secretsDir}`);
@@ -95,6 +133,7 @@ program
 
       const gracefulShutdown = async (): Promise<void> => {
         logger.info('Shutting down gracefully...');
+        await controlServer?.stop();
         await runner.stop();
         process.exit(0);
       };
@@ -134,10 +173,14 @@ program
         secretsFile: join(secretsDir, 'secrets.json'),
         logger,
         encryptionPassword: opts.encryptionKey,
+        watermarksDir: paths.watermarks,
+        history: { file: paths.historyFile },
       });
 
       await runner.start();
       const execution = await runner.executeJobOnce(opts.jobId);
+      // Waits for the run's notifications to be sent
+      await runner.stop();
 
       if (execution) {
         if (execution.status === 'completed') {
@@ -151,14 +194,249 @@ program
           process.exit(1);
         }
       }
-
-      await runner.stop();
     } catch (error) {
       logger.error('Failed to execute job:', { error: error instanceof Error ? error.message : String(error) });
       process.exit(1);
     }
   });
 
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatTime(iso?: string): string {
+  return iso ? iso.replace('T', ' ').replace(/\.\d+Z$/, 'Z') : '-';
+}
+
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const format = (cells: string[]): string => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(format(headers));
+  rows.forEach((row) => console.log(format(row)));
+}
+
+function describeRun(run?: RunSummary): string {
+  return run ? `${formatTime(run.started_at)} (${formatDuration(run.duration_ms)})` : '-';
+}
+
+program
+  .command('status')
+  .option('--job-id <id>', 'Only show this job')
+  .option('--json', 'Print raw status as JSON')
+  .description('Show last success/failure and next scheduled run per job')
+  .action(async (opts: { jobId?: string; json?: boolean }) => {
+    const paths = getQueryBirdPaths();
+    const statuses = (await JobStatusStore.readAll(paths.status)).filter((status) => !opts.jobId || status.job_id === opts.jobId);
+
+    if (opts.json) {
+      console.log(JSON.stringify(statuses, null, 2));
+      return;
+    }
+
+    if (statuses.length === 0) {
+      console.log(opts.jobId ? `No status recorded for job ${opts.jobId}` : 'No job status recorded yet (is `querybird start` running?)');
+      return;
+    }
+
+    printTable(
+      ['JOB', 'LAST STATUS', 'RECORDS', 'LAST SUCCESS', 'LAST FAILURE', 'NEXT RUN'],
+      statuses.map((status) => [
+        status.job_id,
+        !status.enabled ? 'disabled' : status.paused ? 'paused' : status.last_run?.status ?? 'never run',
+        status.last_run?.record_count !== undefined ? String(status.last_run.record_count) : '-',
+        describeRun(status.last_success),
+        describeRun(status.last_failure),
+        formatTime(status.next_run),
+      ])
+    );
+
+    const failing = statuses.filter((status) => status.last_run && status.last_run.status !== 'completed');
+    for (const status of failing) {
+      console.log(`\n❌ ${status.job_id}: ${status.last_run?.error ?? 'unknown error'} (run ${status.last_run?.run_id})`);
+    }
+  });
+
+program
+  .command('history')
+  .argument('[run-id]', 'Show full details of a single run')
+  .option('--job-id <id>', 'Only show runs of this job')
+  .option('--limit <num>', 'Number of runs to show', '20')
+  .option('--json', 'Print runs as JSON')
+  .description('Show recent job executions or the details of one run')
+  .action(async (runId: string | undefined, opts: { jobId?: string; limit: string; json?: boolean }) => {
+    const paths = getQueryBirdPaths();
+
+    const historyExists = await access(paths.historyFile)
+      .then(() => true)
+      .catch(() => false);
+    if (!historyExists) {
+      console.log('No run history found');
+      return;
+    }
+
+    const history = new RunHistory({ file: paths.historyFile, readonly: true }, new Logger());
+
+    try {
+      if (runId) {
+        const run = history.getRun(runId);
+        if (!run) {
+          console.error(`❌ Run not found: ${runId}`);
+          process.exit(1);
+        }
+
+        if (opts.json) {
+          console.log(JSON.stringify(run, null, 2));
+        } else {
+          printRunDetails(run);
+        }
+        return;
+      }
+
+      const runs = history.listRuns(opts.jobId, parseInt(opts.limit, 10));
+
+      if (opts.json) {
+        console.log(JSON.stringify(runs, null, 2));
+        return;
+      }
+
+      if (runs.length === 0) {
+        console.log('No runs recorded');
+        return;
+      }
+
+      printTable(
+        ['RUN ID', 'JOB', 'TRIGGER', 'STATUS', 'STARTED', 'DURATION', 'RECORDS', 'ERROR'],
+        runs.map((run) => [
+          run.runId,
+          run.jobId,
+          run.trigger,
+          run.status,
+          formatTime(run.startedAt),
+          formatDuration(run.duration),
+          run.recordCount !== undefined ? String(run.recordCount) : '-',
+          run.error ? (run.error.message.length > 60 ? `${run.error.message.slice(0, 57)}...` : run.error.message) : '',
+        ])
+      );
+    } finally {
+      history.close();
+    }
+  });
+
+const outboxCommand = program.command('outbox').description('Inspect and redeliver outputs that failed after all retries');
+
+outboxCommand
+  .command('list')
+  .option('--job-id <id>', 'Only show entries of this job')
+  .option('--json', 'Print entries (including their data) as JSON')
+  .description('List undelivered outputs waiting in the outbox')
+  .action(async (opts: { jobId?: string; json?: boolean }) => {
+    const entries = await new Outbox(getQueryBirdPaths().outbox, new Logger()).list(opts.jobId);
+
+    if (opts.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log('Outbox is empty');
+      return;
+    }
+
+    printTable(
+      ['ID', 'JOB', 'OUTPUT', 'RECORDS', 'QUEUED', 'ATTEMPTS', 'NEXT ATTEMPT', 'LAST ERROR'],
+      entries.map((entry) => [
+        entry.id,
+        entry.job_id,
+        `${entry.output_index + 1}. ${entry.output.type}`,
+        Array.isArray(entry.data) ? String(entry.data.length) : '1',
+        formatTime(entry.created_at),
+        String(entry.attempts),
+        formatTime(entry.next_attempt_at),
+        entry.last_error ? (entry.last_error.length > 60 ? `${entry.last_error.slice(0, 57)}...` : entry.last_error) : '',
+      ])
+    );
+  });
+
+outboxCommand
+  .command('retry')
+  .argument('[id]', 'Only retry this entry')
+  .option('--job-id <id>', 'Only retry entries of this job')
+  .option('--encryption-key <key>', 'Encryption key for file-based secrets')
+  .option('--log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .description('Redeliver outbox entries now instead of waiting for the daemon')
+  .action(async (id: string | undefined, opts: { jobId?: string; encryptionKey?: string; logLevel: LogLevelName }) => {
+    const logger = new Logger(opts.logLevel);
+    const paths = getQueryBirdPaths();
+    const outputManager = new OutputManager(new ImprovedSecretsManager(paths.secretsFile, opts.encryptionKey), logger);
+
+    const results = await new Outbox(paths.outbox, logger).redeliver(outputManager, { id, jobId: opts.jobId });
+    if (results.delivered + results.failed + results.skipped === 0) {
+      console.log(id ? `❌ Outbox entry not found: ${id}` : 'Outbox is empty');
+      process.exit(id ? 1 : 0);
+    }
+
+    console.log(`Delivered ${results.delivered}, failed ${results.failed}${results.skipped ? `, skipped ${results.skipped} already being sent` : ''}`);
+    process.exit(results.failed > 0 ? 1 : 0);
+  });
+
+outboxCommand
+  .command('purge')
+  .argument('[id]', 'Remove this entry')
+  .option('--job-id <id>', 'Remove all entries of this job')
+  .option('--all', 'Remove every entry')
+  .description('Discard undelivered outputs from the outbox')
+  .action(async (id: string | undefined, opts: { jobId?: string; all?: boolean }) => {
+    if (!id && !opts.jobId && !opts.all) {
+      console.error('❌ Specify an entry id, --job-id or --all');
+      process.exit(1);
+    }
+
+    const outbox = new Outbox(getQueryBirdPaths().outbox, new Logger());
+    let removed = 0;
+    for (const entry of await outbox.list(opts.jobId)) {
+      if (id && entry.id !== id) continue;
+      if (await outbox.remove(entry.id)) removed++;
+    }
+
+    if (id && removed === 0) {
+      console.error(`❌ Outbox entry not found: ${id}`);
+      process.exit(1);
+    }
+    console.log(`Removed ${removed} outbox ${removed === 1 ? 'entry' : 'entries'}`);
+  });
+
+function printRunDetails(run: RunRecord): void {
+  console.log(`Run:       ${run.runId}`);
+  console.log(`Job:       ${run.jobId}`);
+  console.log(`Trigger:   ${run.trigger}`);
+  console.log(`Status:    ${run.status}`);
+  console.log(`Started:   ${formatTime(run.startedAt)}`);
+  console.log(`Finished:  ${formatTime(run.finishedAt)}`);
+  console.log(`Duration:  ${formatDuration(run.duration)}`);
+  console.log(`Stages:    input ${formatDuration(run.stages.input)}, transform ${formatDuration(run.stages.transform)}, output ${formatDuration(run.stages.output)}`);
+  console.log(`Records:   ${run.recordCount ?? '-'}`);
+  if (run.watermark) {
+    console.log(`Watermark: ${run.watermark}`);
+  }
+
+  if (run.outputs.length > 0) {
+    console.log('\nOutputs:');
+    for (const output of run.outputs) {
+      const target = output.target ? ` ${output.target}` : '';
+      console.log(`  ${output.index + 1}. ${output.type}${target}: ${output.status}, ${output.recordCount} records in ${formatDuration(output.duration)}${output.error ? ` - ${output.error}` : ''}`);
+    }
+  }
+
+  if (run.error) {
+    console.log(`\nError${run.error.stage ? ` (${run.error.stage} stage)` : ''}:`);
+    console.log(run.error.stack || run.error.message);
+  }
+}
+
 program
   .command('update')
   .argument('[action]', 'Update action (check, install)')
@@ -416,11 +694,46 @@ secretsCommand
     }
   });
 
+// A wildcard bind address isn't something to connect to
+function probeHost(host?: string): string {
+  if (!host || host === '0.0.0.0') return '127.0.0.1';
+  if (host === '::') return '[::1]';
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
 program
   .command('health')
   .description('Health check for Docker containers')
-  .action(async () => {
+  .option('--port <port>', 'Query the daemon on this port (default: QB_PUBLIC_PORT or QB_API_PORT)', process.env.QB_PUBLIC_PORT || process.env.QB_API_PORT)
+  .option('--host <host>', 'Host the daemon listens on (default: QB_PUBLIC_HOST or QB_API_HOST, or 127.0.0.1)')
+  .option('--socket <path>', "Query the daemon's control API on this unix socket instead")
+  .option('--ready', 'Check readiness (/readyz) instead of liveness (/healthz)')
+  .option('--token <token>', 'Control API token, to list each readiness check (default: QB_API_TOKEN)', process.env.QB_API_TOKEN)
+  .action(async (opts: { port?: string; host?: string; socket?: string; ready?: boolean; token?: string }) => {
     try {
+      // Prefer the running daemon's own probes when its API is enabled
+      if (opts.port || opts.socket) {
+        const path = opts.ready ? '/readyz' : '/healthz';
+        const host = probeHost(opts.host || (process.env.QB_PUBLIC_PORT ? process.env.QB_PUBLIC_HOST : process.env.QB_API_HOST));
+        const headers: Record<string, string> = opts.token ? { Authorization: `Bearer ${opts.token}` } : {};
+        const response = opts.socket
+          ? await fetch(`http://localhost${path}`, { unix: opts.socket, headers, signal: AbortSignal.timeout(5000) })
+          : await fetch(`http://${host}:${opts.port}${path}`, { headers, signal: AbortSignal.timeout(5000) });
+        const report = (await response.json()) as { ready?: boolean; alive?: boolean; checks?: Record<string, { ok: boolean; detail?: unknown }> };
+
+        for (const [name, check] of Object.entries(report.checks ?? {})) {
+          const detail = check.detail === undefined ? '' : `: ${typeof check.detail === 'string' ? check.detail : JSON.stringify(check.detail)}`;
+          console.log(`${check.ok ? '✅' : '❌'} ${name}${detail}`);
+        }
+
+        if (!response.ok) {
+          console.error(opts.ready ? '❌ QueryBird is not ready' : '❌ QueryBird is not responding');
+          process.exit(1);
+        }
+        console.log('✅ QueryBird health check passed');
+        process.exit(0);
+      }
+
       const paths = getQueryBirdPaths();
 
       // Check if config directory exists and has configs
@@ -0,0 +1,16 @@
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Write a file by writing a temporary sibling and renaming it into place,
+ * so readers never observe a partially written file
+ */
+export async function writeFileAtomic(filePath: string, content: string | Uint8Array): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+
+  // Unique per write, so concurrent writes of the same file don't share a temporary file
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, content);
+  await rename(tempPath, filePath);
+}
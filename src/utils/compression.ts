@@ -0,0 +1,54 @@
+import * as zlib from 'zlib';
+import type { Transform } from 'stream';
+
+const { brotliCompressSync, createBrotliCompress, createGzip, gzipSync } = zlib;
+
+// Bun implements zstd streams, but the Node 20 typings predate them
+const { createZstdCompress } = zlib as typeof zlib & { createZstdCompress?: () => Transform };
+
+// Bun.zstdCompressSync and zlib's zstd streams arrived in Bun 1.2.15
+export const ZSTD_SUPPORTED = typeof Bun.zstdCompressSync === 'function' && typeof createZstdCompress === 'function';
+
+export type Compression = 'none' | 'gzip' | 'zstd' | 'brotli';
+
+const CONTENT_ENCODINGS: Record<Exclude<Compression, 'none'>, string> = {
+  gzip: 'gzip',
+  zstd: 'zstd',
+  brotli: 'br',
+};
+
+export function compress(content: string | Uint8Array, compression: Compression): Uint8Array<ArrayBuffer> {
+  const input = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+
+  switch (compression) {
+    case 'gzip':
+      return new Uint8Array(gzipSync(input));
+    case 'zstd':
+      return new Uint8Array(Bun.zstdCompressSync(input));
+    case 'brotli':
+      return new Uint8Array(brotliCompressSync(input));
+    default:
+      return new Uint8Array(input);
+  }
+}
+
+/**
+ * Streaming compressor for outputs written incrementally
+ */
+export function createCompressor(compression: Exclude<Compression, 'none'>): Transform {
+  switch (compression) {
+    case 'gzip':
+      return createGzip();
+    case 'zstd':
+      return createZstdCompress!();
+    case 'brotli':
+      return createBrotliCompress();
+  }
+}
+
+/**
+ * HTTP Content-Encoding for a compression, or undefined when the body is not compressed
+ */
+export function contentEncoding(compression: Compression): string | undefined {
+  return compression === 'none' ? undefined : CONTENT_ENCODINGS[compression];
+}
@@ -101,26 +101,42 @@ export class ImprovedSecretsManager {
       return this.cache;
     }
 
+    const secretsData = await this.readSecretsFile();
+
+    this.cache = secretsData;
+    return secretsData;
+  }
+
+  /**
+   * Check that the secrets file on disk can be read and decrypted, without touching the cache
+   */
+  async verifySecrets(): Promise<void> {
+    try {
+      await access(this.secretsFile);
+    } catch {
+      // A missing file is treated as an empty config by loadSecrets()
+      return;
+    }
+
+    await this.readSecretsFile();
+  }
+
+  private async readSecretsFile(): Promise<SecretsConfig> {
     const content = await readFile(this.secretsFile, 'utf-8');
     
-    let secretsData: SecretsConfig;
-    
     try {
       if (this.encryptionKey) {
         // File is encrypted
         const encryptedFile = JSON.parse(content) as EncryptedFile;
         const decryptedContent = this.decrypt(encryptedFile.data, encryptedFile.iv, encryptedFile.tag);
-        secretsData = JSON.parse(decryptedContent) as SecretsConfig;
+        return JSON.parse(decryptedContent) as SecretsConfig;
       } else {
         // File is plain JSON
-        secretsData = JSON.parse(content) as SecretsConfig;
+        return JSON.parse(content) as SecretsConfig;
       }
     } catch (error) {
       throw new Error(`Failed to parse secrets file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-
-    this.cache = secretsData;
-    return secretsData;
   }
 
   async saveSecrets(secrets: SecretsConfig): Promise<void> {
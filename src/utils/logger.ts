@@ -71,6 +71,11 @@ export class Logger {
     this.log('DEBUG', this.levels.DEBUG, message, context);
   }
 
+  // Lets callers skip building expensive debug context, e.g. serialized datasets
+  isDebugEnabled(): boolean {
+    return this.shouldLog(this.levels.DEBUG);
+  }
+
   child(context: Record<string, unknown>): Logger {
     return new ChildLogger(this, context);
   }
@@ -96,6 +101,10 @@ class ChildLogger extends Logger {
   debug(message: string, context?: Record<string, unknown>): void {
     this.parent.debug(message, { ...this.defaultContext, ...context });
   }
+
+  isDebugEnabled(): boolean {
+    return this.parent.isDebugEnabled();
+  }
 }
 
 // Default logger instance for backward compatibility
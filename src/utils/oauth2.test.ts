@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { Server } from 'bun';
+import { OAuth2Client, OAuth2Config } from './oauth2';
+import { Logger } from './logger';
+
+// Stand-in for an OAuth2 token endpoint and an API that accepts only the latest token
+let server: Server<undefined>;
+let tokenRequests: Array<{ authorization: string | null; form: URLSearchParams }> = [];
+let currentToken = '';
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (pathname === '/token') {
+        const form = new URLSearchParams(await request.text());
+        tokenRequests.push({ authorization: request.headers.get('authorization'), form });
+        if (form.get('client_id') === 'slow') {
+          await Bun.sleep(100);
+        }
+        if (form.get('client_id') === 'unknown') {
+          return Response.json({ error: 'invalid_client' }, { status: 401, statusText: 'Unauthorized' });
+        }
+        currentToken = `token-${tokenRequests.length}`;
+        return Response.json({ access_token: currentToken, token_type: 'Bearer', expires_in: 3600 });
+      }
+
+      if (request.headers.get('authorization') !== `Bearer ${currentToken}`) {
+        return new Response('expired', { status: 401, statusText: 'Unauthorized' });
+      }
+      return Response.json({ ok: true });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  tokenRequests = [];
+});
+
+const auth = (overrides: Partial<OAuth2Config> = {}): OAuth2Config => ({
+  type: 'oauth2_client_credentials',
+  token_url: `http://127.0.0.1:${server.port}/token`,
+  client_id: 'querybird',
+  client_secret: 's3cret',
+  scopes: ['read', 'write'],
+  client_auth: 'basic',
+  ...overrides,
+});
+
+describe('OAuth2Client', () => {
+  it('should fetch a token once and reuse it', async () => {
+    const client = new OAuth2Client(new Logger('error'));
+    const url = `http://127.0.0.1:${server.port}/api`;
+
+    const responses = await Promise.all([1, 2, 3].map(() => client.fetch(auth(), url, { method: 'GET' })));
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(tokenRequests).toHaveLength(1);
+    expect(tokenRequests[0].authorization).toBe(`Basic ${Buffer.from('querybird:s3cret').toString('base64')}`);
+    expect(tokenRequests[0].form.get('grant_type')).toBe('client_credentials');
+    expect(tokenRequests[0].form.get('scope')).toBe('read write');
+  });
+
+  it('should refresh the token when the API rejects it', async () => {
+    const client = new OAuth2Client(new Logger('error'));
+    const url = `http://127.0.0.1:${server.port}/api`;
+    await client.fetch(auth({ client_auth: 'body' }), url, { method: 'GET' });
+
+    // The token is revoked server-side
+    currentToken = 'rotated';
+    const response = await client.fetch(auth({ client_auth: 'body' }), url, { method: 'GET' });
+
+    expect(response.status).toBe(200);
+    expect(tokenRequests).toHaveLength(2);
+    expect(tokenRequests[1].form.get('client_secret')).toBe('s3cret');
+  });
+
+  it('should keep fetching the token for other callers when the first one aborts', async () => {
+    const client = new OAuth2Client(new Logger('error'));
+    const controller = new AbortController();
+
+    const first = client.authorization(auth({ client_id: 'slow', client_auth: 'body' }), controller.signal);
+    const second = client.authorization(auth({ client_id: 'slow', client_auth: 'body' }));
+    controller.abort(new Error('Job timed out'));
+
+    await expect(first).rejects.toThrow('Job timed out');
+    expect(await second).toEqual({ Authorization: `Bearer ${currentToken}` });
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  it('should not share tokens between client_auth methods', async () => {
+    const client = new OAuth2Client(new Logger('error'));
+
+    await client.authorization(auth({ client_auth: 'basic' }));
+    await client.authorization(auth({ client_auth: 'body' }));
+
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it('should report token endpoint errors', async () => {
+    const client = new OAuth2Client(new Logger('error'));
+
+    await expect(client.authorization(auth({ client_id: 'unknown', client_auth: 'body' }))).rejects.toThrow('HTTP 401: Unauthorized (invalid_client)');
+  });
+});
@@ -0,0 +1,138 @@
+import { Logger } from './logger';
+import { abortable } from './abort';
+
+export interface OAuth2Config {
+  type: 'oauth2_client_credentials';
+  token_url: string;
+  client_id: string;
+  client_secret: string;
+  scopes?: string[];
+  // basic: credentials in an Authorization header (RFC 6749 default); body: as form fields
+  client_auth: 'basic' | 'body';
+}
+
+interface CachedToken {
+  accessToken: string;
+  // Epoch milliseconds, or null when the server didn't say how long the token lives
+  expiresAt: number | null;
+}
+
+// Tokens are refreshed this long before they expire, so they don't lapse in flight
+const EXPIRY_MARGIN = 30 * 1000;
+
+// A token request is shared by every caller waiting on it, so it has its own time limit
+const TOKEN_TIMEOUT = 30 * 1000;
+
+/**
+ * Fetches OAuth2 client-credentials tokens and caches them until shortly before they expire
+ *
+ * One instance is shared by the HTTP inputs and outputs, so jobs using the same token endpoint,
+ * client and scopes share a token. Concurrent requests for a token wait on a single fetch;
+ * a caller that gives up stops waiting without cancelling the fetch for the others.
+ */
+export class OAuth2Client {
+  private tokens = new Map<string, CachedToken>();
+  private pending = new Map<string, Promise<CachedToken>>();
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Send a request with a bearer token; on a 401 the token is refreshed and the request sent once more
+   *
+   * `auth` must have its secrets resolved already. The request body is sent twice in that case,
+   * so it can't be a stream.
+   */
+  async fetch(auth: OAuth2Config, url: string, init: RequestInit): Promise<Response> {
+    const signal = init.signal ?? undefined;
+    const token = await this.token(auth, signal);
+    const response = await fetch(url, { ...init, headers: withBearer(init.headers, token.accessToken) });
+    if (response.status !== 401) {
+      return response;
+    }
+
+    this.logger.info(`Access token from ${auth.token_url} was rejected by ${url}, requesting a new one`);
+    this.invalidate(auth, token);
+    const refreshed = await this.token(auth, signal);
+    return fetch(url, { ...init, headers: withBearer(init.headers, refreshed.accessToken) });
+  }
+
+  /**
+   * Authorization header for a request that can't be repeated, such as a streamed upload
+   */
+  async authorization(auth: OAuth2Config, signal?: AbortSignal): Promise<Record<string, string>> {
+    const token = await this.token(auth, signal);
+    return { Authorization: `Bearer ${token.accessToken}` };
+  }
+
+  private async token(auth: OAuth2Config, signal?: AbortSignal): Promise<CachedToken> {
+    const key = cacheKey(auth);
+    const cached = this.tokens.get(key);
+    if (cached && (cached.expiresAt === null || cached.expiresAt - EXPIRY_MARGIN > Date.now())) {
+      return cached;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.requestToken(auth)
+        .then((token) => {
+          this.tokens.set(key, token);
+          return token;
+        })
+        .finally(() => this.pending.delete(key));
+      // Every caller may have given up by the time it fails
+      pending.catch(() => undefined);
+      this.pending.set(key, pending);
+    }
+
+    return abortable(pending, signal);
+  }
+
+  private invalidate(auth: OAuth2Config, token: CachedToken): void {
+    const key = cacheKey(auth);
+    // Another request may have refreshed it already
+    if (this.tokens.get(key) === token) {
+      this.tokens.delete(key);
+    }
+  }
+
+  private async requestToken(auth: OAuth2Config): Promise<CachedToken> {
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (auth.scopes?.length) {
+      form.set('scope', auth.scopes.join(' '));
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+    if (auth.client_auth === 'body') {
+      form.set('client_id', auth.client_id);
+      form.set('client_secret', auth.client_secret);
+    } else {
+      const credentials = `${encodeURIComponent(auth.client_id)}:${encodeURIComponent(auth.client_secret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(auth.token_url, { method: 'POST', headers, body: form.toString(), signal: AbortSignal.timeout(TOKEN_TIMEOUT) });
+    const body = (await response.json().catch(() => ({}))) as { access_token?: string; expires_in?: number | string; error?: string };
+
+    if (!response.ok) {
+      const reason = body.error ? ` (${body.error})` : '';
+      throw new Error(`OAuth2 token request to ${auth.token_url} failed - HTTP ${response.status}: ${response.statusText}${reason}`);
+    }
+    if (!body.access_token) {
+      throw new Error(`OAuth2 token response from ${auth.token_url} has no access_token`);
+    }
+
+    const expiresIn = Number(body.expires_in);
+    this.logger.debug(`Got access token from ${auth.token_url}${expiresIn ? `, valid for ${expiresIn}s` : ''}`);
+    return { accessToken: body.access_token, expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 : null };
+  }
+}
+
+function cacheKey(auth: OAuth2Config): string {
+  return JSON.stringify([auth.token_url, auth.client_id, auth.client_secret, auth.client_auth, [...(auth.scopes ?? [])].sort()]);
+}
+
+function withBearer(headers: RequestInit['headers'], accessToken: string): Headers {
+  const merged = new Headers(headers);
+  merged.set('Authorization', `Bearer ${accessToken}`);
+  return merged;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'bun:test';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { toParquet } from './parquet';
+
+function arrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe('toParquet', () => {
+  const rows = [
+    { id: 1, name: 'Alice', score: 9.5, active: true, created_at: new Date('2024-01-01T00:00:00Z'), tags: ['a'] },
+    { id: 2, name: null, score: 7, active: false, created_at: new Date('2024-01-02T00:00:00Z'), tags: [] },
+  ];
+
+  it('should infer column types from the rows', () => {
+    const metadata = parquetMetadata(arrayBuffer(toParquet(rows)));
+    const columns = Object.fromEntries(metadata.schema.slice(1).map((element) => [element.name, element.converted_type ?? element.type]));
+
+    expect(columns).toEqual({ id: 'INT32', name: 'UTF8', score: 'DOUBLE', active: 'BOOLEAN', created_at: 'TIMESTAMP_MILLIS', tags: 'JSON' });
+    expect(Number(metadata.num_rows)).toBe(2);
+  });
+
+  it('should apply explicit column types', async () => {
+    const file = arrayBuffer(toParquet([{ id: '9007199254740993', amount: '12.50' }], { columns: { id: 'INT64', amount: 'DOUBLE' } }));
+
+    const [row] = await parquetReadObjects({ file });
+    expect(row).toEqual({ id: 9007199254740993n, amount: 12.5 });
+  });
+
+  it('should compress column chunks with the chosen codec', () => {
+    const metadata = parquetMetadata(arrayBuffer(toParquet(rows, { compression: 'zstd' })));
+    expect(metadata.row_groups[0].columns.map((column) => column.meta_data?.codec)).toEqual(Array(6).fill('ZSTD'));
+  });
+
+  it('should reject values that do not match an explicit type', () => {
+    expect(() => toParquet([{ amount: 'abc' }], { columns: { amount: 'DOUBLE' } })).toThrow("Column 'amount' value \"abc\" is not a number");
+  });
+});
@@ -0,0 +1,131 @@
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { compress } from './compression';
+
+export type ParquetColumnType = 'BOOLEAN' | 'INT32' | 'INT64' | 'FLOAT' | 'DOUBLE' | 'STRING' | 'JSON' | 'TIMESTAMP';
+export type ParquetCompression = 'uncompressed' | 'snappy' | 'gzip' | 'brotli' | 'zstd';
+
+export interface ParquetOptions {
+  compression?: ParquetCompression;
+  // Explicit column types; columns not listed are inferred from their values
+  columns?: Record<string, ParquetColumnType>;
+}
+
+const CODECS = {
+  uncompressed: 'UNCOMPRESSED',
+  snappy: 'SNAPPY',
+  gzip: 'GZIP',
+  brotli: 'BROTLI',
+  zstd: 'ZSTD',
+} as const;
+
+// hyparquet-writer only ships snappy; a codec without a compressor would be written uncompressed
+const COMPRESSORS = {
+  GZIP: (input: Uint8Array) => compress(input, 'gzip'),
+  BROTLI: (input: Uint8Array) => compress(input, 'brotli'),
+  ZSTD: (input: Uint8Array) => compress(input, 'zstd'),
+};
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+/**
+ * Encode rows as a Parquet file
+ *
+ * Columns are the union of the rows' keys in first-seen order. A column's type
+ * comes from `options.columns` or is inferred from its non-null values: booleans,
+ * integers (INT32, or INT64 when out of range), doubles, dates (TIMESTAMP),
+ * strings, and objects/arrays (JSON). Columns with mixed types fall back to STRING.
+ */
+export function toParquet(data: unknown, options: ParquetOptions = {}): Uint8Array<ArrayBuffer> {
+  const rows = (Array.isArray(data) ? data : [data]).filter((row): row is Record<string, unknown> => !!row && typeof row === 'object');
+  if (rows.length === 0) {
+    throw new Error('Parquet output requires at least one row object');
+  }
+
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const name of Object.keys(row)) {
+      if (!seen.has(name)) {
+        seen.add(name);
+        names.push(name);
+      }
+    }
+  }
+
+  const columnData = names.map((name) => {
+    const values = rows.map((row) => row[name]);
+    const type = options.columns?.[name] ?? inferColumnType(values);
+    return { name, type, data: values.map((value) => convertValue(value, type, name)) };
+  });
+
+  const buffer = parquetWriteBuffer({
+    columnData,
+    codec: CODECS[options.compression ?? 'snappy'],
+    compressors: COMPRESSORS,
+  });
+
+  return new Uint8Array(buffer);
+}
+
+function inferColumnType(values: unknown[]): ParquetColumnType {
+  const types = new Set<ParquetColumnType>();
+
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+
+    if (typeof value === 'boolean') types.add('BOOLEAN');
+    else if (typeof value === 'bigint') types.add('INT64');
+    else if (typeof value === 'number') types.add(!Number.isInteger(value) ? 'DOUBLE' : value < INT32_MIN || value > INT32_MAX ? 'INT64' : 'INT32');
+    else if (value instanceof Date) types.add('TIMESTAMP');
+    else if (typeof value === 'object') types.add('JSON');
+    else types.add('STRING');
+  }
+
+  // Integers widen to INT64 or DOUBLE as needed
+  if (types.has('INT32') && types.has('INT64')) types.delete('INT32');
+  if (types.has('DOUBLE')) {
+    types.delete('INT32');
+    types.delete('INT64');
+  }
+
+  if (types.size === 1) return types.values().next().value!;
+  return 'STRING';
+}
+
+function convertValue(value: unknown, type: ParquetColumnType, column: string): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? value : value === 'true' || value === 1 || value === '1';
+    case 'INT32':
+    case 'FLOAT':
+    case 'DOUBLE': {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`Column '${column}' value ${JSON.stringify(value)} is not a number`);
+      }
+      return type === 'INT32' ? Math.trunc(number) : number;
+    }
+    case 'INT64':
+      // Drivers return BIGINT columns as strings to keep their precision
+      try {
+        return BigInt(typeof value === 'number' ? Math.trunc(value) : (value as string | bigint));
+      } catch {
+        throw new Error(`Column '${column}' value ${JSON.stringify(value)} is not an integer`);
+      }
+    case 'TIMESTAMP': {
+      const date = value instanceof Date ? value : new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Column '${column}' value ${JSON.stringify(value)} is not a timestamp`);
+      }
+      return date;
+    }
+    case 'JSON':
+      return value;
+    default:
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
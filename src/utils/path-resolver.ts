@@ -14,6 +14,9 @@ export function getQueryBirdPaths() {
     watermarks: join(baseConfigDir, 'watermarks'),
     outputs: join(baseConfigDir, 'outputs'),
     logs: join(baseConfigDir, 'logs'),
+    historyFile: join(baseConfigDir, 'history', 'runs.db'),
+    status: join(baseConfigDir, 'status'),
+    outbox: join(baseConfigDir, 'outbox'),
     secretsFile: join(baseConfigDir, 'secrets', 'secrets.json')
   };
 }
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'bun:test';
+import { HttpError, RetryPolicy, isRetryable, parseRetryAfter, retryDelay } from './retry';
+
+const policy: RetryPolicy = { attempts: 5, delay: 1000, backoff: 'exponential', maxDelay: 5000, retryOn: [429, 503, 'network'] };
+
+describe('retry', () => {
+  it('should double the delay on each retry up to the maximum', () => {
+    expect([1, 2, 3, 4].map((retry) => retryDelay(policy, retry))).toEqual([1000, 2000, 4000, 5000]);
+    expect(retryDelay({ ...policy, backoff: 'fixed' }, 4)).toBe(1000);
+  });
+
+  it('should keep jittered delays within the exponential bound', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = retryDelay({ ...policy, backoff: 'exponential_jitter' }, 3);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(4000);
+    }
+  });
+
+  it('should honor Retry-After on 429 and 503, capped at the maximum', () => {
+    expect(retryDelay(policy, 1, new HttpError('HTTP 429', 429, 3000))).toBe(3000);
+    expect(retryDelay(policy, 1, new HttpError('HTTP 503', 503, 120000))).toBe(5000);
+    expect(retryDelay(policy, 1, new HttpError('HTTP 500', 500, 3000))).toBe(1000);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it('should only retry listed status codes and network errors', () => {
+    expect(isRetryable(new HttpError('HTTP 503', 503), policy.retryOn)).toBe(true);
+    expect(isRetryable(new HttpError('HTTP 400', 400), policy.retryOn)).toBe(false);
+    expect(isRetryable(new TypeError('fetch failed'), policy.retryOn)).toBe(true);
+    expect(isRetryable(new TypeError('fetch failed'), [503])).toBe(false);
+  });
+});
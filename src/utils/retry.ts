@@ -0,0 +1,77 @@
+export type Backoff = 'fixed' | 'exponential' | 'exponential_jitter';
+
+// HTTP status codes, or 'network' for requests that never got a response
+export type RetryCondition = number | 'network';
+
+export interface RetryPolicy {
+  // Total attempts, including the first
+  attempts: number;
+  delay: number;
+  backoff: Backoff;
+  maxDelay: number;
+  retryOn: RetryCondition[];
+}
+
+/**
+ * A request that got an error response, carrying what retry decisions need
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // Milliseconds from the Retry-After header, when the server sent one
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  static async fromResponse(response: Response, message: string): Promise<HttpError> {
+    return new HttpError(message, response.status, parseRetryAfter(response.headers.get('retry-after')));
+  }
+}
+
+export function isRetryable(error: unknown, retryOn: RetryCondition[]): boolean {
+  if (error instanceof HttpError) {
+    return retryOn.includes(error.status);
+  }
+  return retryOn.includes('network');
+}
+
+/**
+ * Milliseconds to wait before retry number `retry` (1 for the first retry)
+ *
+ * exponential doubles the delay on each retry; exponential_jitter picks a random delay
+ * between 0 and that ("full jitter") so clients that failed together don't retry together.
+ * A Retry-After from a 429 or 503 response replaces the computed delay. Every delay is
+ * capped at maxDelay.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, error?: unknown): number {
+  if (error instanceof HttpError && (error.status === 429 || error.status === 503) && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  const exponential = Math.min(policy.delay * 2 ** (retry - 1), policy.maxDelay);
+  switch (policy.backoff) {
+    case 'exponential':
+      return exponential;
+    case 'exponential_jitter':
+      return Math.floor(Math.random() * exponential);
+    default:
+      return Math.min(policy.delay, policy.maxDelay);
+  }
+}
+
+/**
+ * Parse a Retry-After header, either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
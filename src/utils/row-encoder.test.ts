@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'bun:test';
+import { createRowEncoder } from './row-encoder';
+
+function encodeBatches(format: 'json' | 'ndjson' | 'csv', batches: unknown[][]): string {
+  const encoder = createRowEncoder(format);
+  return batches.map((rows) => encoder.encode(rows)).join('') + encoder.finish();
+}
+
+describe('createRowEncoder', () => {
+  const batches = [[{ id: 1, name: 'a' }], [], [{ id: 2, name: 'b, c' }, { id: 3, name: 'd' }]];
+
+  it('should produce a single JSON array across batches', () => {
+    const text = encodeBatches('json', batches);
+    expect(JSON.parse(text)).toEqual([
+      { id: 1, name: 'a' },
+      { id: 2, name: 'b, c' },
+      { id: 3, name: 'd' },
+    ]);
+    expect(encodeBatches('json', [])).toBe('[]');
+  });
+
+  it('should write one document per line for ndjson', () => {
+    expect(encodeBatches('ndjson', batches)).toBe('{"id":1,"name":"a"}\n{"id":2,"name":"b, c"}\n{"id":3,"name":"d"}\n');
+  });
+
+  it('should write the CSV header once, from the first row', () => {
+    expect(encodeBatches('csv', batches)).toBe('id,name\n1,a\n2,"b, c"\n3,d');
+  });
+});
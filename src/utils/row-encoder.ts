@@ -0,0 +1,73 @@
+export type RowFormat = 'json' | 'ndjson' | 'csv';
+
+/**
+ * Incremental serializer for streamed rows
+ *
+ * `encode` returns the text for the next batch of rows and `finish` returns
+ * whatever closes the document, so the output never has to be held in memory.
+ */
+export interface RowEncoder {
+  encode(rows: unknown[]): string;
+  finish(): string;
+}
+
+export function createRowEncoder(format: RowFormat): RowEncoder {
+  switch (format) {
+    case 'ndjson':
+      return {
+        encode: (rows) => rows.map((row) => `${JSON.stringify(row)}\n`).join(''),
+        finish: () => '',
+      };
+
+    case 'csv': {
+      // Like the buffered CSV output, the columns come from the first row
+      let headers: string[] | null = null;
+      return {
+        encode: (rows) => {
+          let text = '';
+          for (const row of rows) {
+            if (!row || typeof row !== 'object') continue;
+            const record = row as Record<string, unknown>;
+            // Lines are newline-separated, with no trailing newline after the last row
+            if (!headers) {
+              headers = Object.keys(record);
+              text += headers.join(',');
+            }
+            text += `\n${headers.map((header) => escapeCsvValue(record[header])).join(',')}`;
+          }
+          return text;
+        },
+        finish: () => '',
+      };
+    }
+
+    default: {
+      // A JSON array, one compact row per line
+      let started = false;
+      return {
+        encode: (rows) =>
+          rows
+            .map((row) => {
+              const prefix = started ? ',\n' : '[\n';
+              started = true;
+              return prefix + JSON.stringify(row);
+            })
+            .join(''),
+        finish: () => (started ? '\n]' : '[]'),
+      };
+    }
+  }
+}
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const stringValue = String(value);
+  if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+
+  return stringValue;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { S3Client } from './s3-client';
+
+const credentials = { accessKeyId: 'minioadmin', secretAccessKey: 'minioadmin' };
+
+// Minimal S3-compatible stand-in: stores objects in memory and assembles multipart uploads
+const objects = new Map<string, string>();
+const uploads = new Map<string, Map<number, string>>();
+const requests: string[] = [];
+let server: Server<undefined>;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const auth = request.headers.get('authorization') || '';
+      requests.push(`${request.method} ${url.pathname}${url.search}`);
+
+      if (!auth.startsWith('AWS4-HMAC-SHA256 Credential=minioadmin/') || !request.headers.get('x-amz-content-sha256')) {
+        return new Response('<Error><Code>AccessDenied</Code><Message>Missing signature</Message></Error>', { status: 403 });
+      }
+
+      const uploadId = url.searchParams.get('uploadId');
+      if (request.method === 'POST' && url.searchParams.has('uploads')) {
+        uploads.set('upload-1', new Map());
+        return new Response('<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>');
+      }
+      if (request.method === 'PUT' && uploadId) {
+        const partNumber = Number(url.searchParams.get('partNumber'));
+        uploads.get(uploadId)!.set(partNumber, await request.text());
+        return new Response(null, { headers: { ETag: `"etag-${partNumber}"` } });
+      }
+      if (request.method === 'POST' && uploadId) {
+        const parts = uploads.get(uploadId)!;
+        objects.set(url.pathname, Array.from(parts.keys()).sort().map((n) => parts.get(n)).join(''));
+        return new Response('<CompleteMultipartUploadResult></CompleteMultipartUploadResult>');
+      }
+      if (request.method === 'PUT') {
+        objects.set(url.pathname, await request.text());
+        return new Response(null);
+      }
+
+      return new Response('<Error><Code>NotImplemented</Code></Error>', { status: 501 });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('S3Client', () => {
+  it('should put small objects with a single signed request', async () => {
+    const client = new S3Client({ bucket: 'exports', region: 'us-east-1', credentials, endpoint: `http://127.0.0.1:${server.port}`, forcePathStyle: true });
+
+    await client.putObject('daily/2024-01-01/orders (1).json', new TextEncoder().encode('[{"id":1}]'), { 'Content-Type': 'application/json' });
+
+    expect(objects.get('/exports/daily/2024-01-01/orders%20%281%29.json')).toBe('[{"id":1}]');
+  });
+
+  it('should use multipart upload for payloads larger than the part size', async () => {
+    const client = new S3Client({ bucket: 'exports', region: 'us-east-1', credentials, endpoint: `http://127.0.0.1:${server.port}`, forcePathStyle: true, partSize: 4 });
+    requests.length = 0;
+
+    await client.putObject('large.csv', new TextEncoder().encode('a,b\n1,2\n3,4\n'), { 'Content-Type': 'text/csv' });
+
+    expect(objects.get('/exports/large.csv')).toBe('a,b\n1,2\n3,4\n');
+    expect(requests.filter((request) => request.includes('partNumber'))).toHaveLength(3);
+  });
+
+  it('should upload chunks written over time as exact-size parts', async () => {
+    const client = new S3Client({ bucket: 'exports', region: 'us-east-1', credentials, endpoint: `http://127.0.0.1:${server.port}`, forcePathStyle: true, partSize: 5 });
+    requests.length = 0;
+
+    const upload = client.createUpload('streamed.ndjson', { 'Content-Type': 'application/x-ndjson' });
+    for (const chunk of ['{"a":1}\n', '{"a":2}\n', '{"a":3}\n']) {
+      await upload.write(new TextEncoder().encode(chunk));
+    }
+    await upload.complete();
+
+    expect(objects.get('/exports/streamed.ndjson')).toBe('{"a":1}\n{"a":2}\n{"a":3}\n');
+    expect(requests.filter((request) => request.includes('partNumber'))).toHaveLength(5);
+  });
+
+  it('should surface the S3 error code', async () => {
+    const client = new S3Client({ bucket: 'exports', region: 'us-east-1', credentials: { accessKeyId: 'wrong', secretAccessKey: 'x' }, endpoint: `http://127.0.0.1:${server.port}`, forcePathStyle: true });
+
+    await expect(client.putObject('denied.json', new Uint8Array())).rejects.toThrow('HTTP 403: AccessDenied - Missing signature');
+  });
+});
@@ -0,0 +1,181 @@
+import { AwsCredentials, encodeRfc3986, sha256Hex, signRequest } from './sigv4';
+import { HttpError, parseRetryAfter } from './retry';
+
+export interface S3ClientOptions {
+  bucket: string;
+  region: string;
+  credentials: AwsCredentials;
+  // S3-compatible endpoint such as http://minio:9000 (default: AWS S3 for the region)
+  endpoint?: string;
+  // Address the bucket as <endpoint>/<bucket> instead of <bucket>.<endpoint host>
+  forcePathStyle?: boolean;
+  // Payloads larger than this are sent with multipart upload (S3 minimum part size is 5 MiB)
+  partSize?: number;
+}
+
+export interface S3Upload {
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  complete(): Promise<void>;
+  // Discard the upload, including any parts already sent
+  abort(): Promise<void>;
+}
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Small S3 client covering the object uploads QueryBird needs
+ *
+ * Works against AWS S3 and S3-compatible stores (MinIO, Ceph, R2...) using
+ * SigV4-signed requests over fetch.
+ */
+export class S3Client {
+  private partSize: number;
+
+  constructor(private options: S3ClientOptions) {
+    this.partSize = options.partSize ?? DEFAULT_PART_SIZE;
+  }
+
+  // `headers` are stored with the object, e.g. Content-Type and Content-Encoding
+  async putObject(key: string, body: Uint8Array<ArrayBuffer>, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<void> {
+    const upload = this.createUpload(key, headers, signal);
+    try {
+      await upload.write(body);
+      await upload.complete();
+    } catch (error) {
+      await upload.abort();
+      throw error;
+    }
+  }
+
+  /**
+   * Upload an object written in chunks of any size
+   *
+   * At most one part is buffered: objects up to the part size are sent with a
+   * single PUT on completion, larger ones switch to multipart upload as soon as
+   * a full part is available.
+   */
+  createUpload(key: string, headers: Record<string, string> = {}, signal?: AbortSignal): S3Upload {
+    let buffered: Uint8Array<ArrayBuffer>[] = [];
+    let bufferedBytes = 0;
+    let uploadId: string | undefined;
+    const parts: string[] = [];
+
+    const takeBuffered = (size: number): Uint8Array<ArrayBuffer> => {
+      const all = concat(buffered, bufferedBytes);
+      const rest = all.subarray(size);
+      buffered = rest.length > 0 ? [rest] : [];
+      bufferedBytes = rest.length;
+      return all.subarray(0, size);
+    };
+
+    const uploadPart = async (body: Uint8Array<ArrayBuffer>): Promise<void> => {
+      if (!uploadId) {
+        const created = await this.request('POST', key, { uploads: '' }, undefined, headers, signal);
+        uploadId = xmlValue(await created.text(), 'UploadId');
+        if (!uploadId) {
+          throw new Error(`S3 did not return an upload id for ${this.options.bucket}/${key}`);
+        }
+      }
+
+      const partNumber = parts.length + 1;
+      const response = await this.request('PUT', key, { partNumber: String(partNumber), uploadId }, body, {}, signal);
+      const etag = response.headers.get('etag');
+      if (!etag) {
+        throw new Error(`S3 did not return an ETag for part ${partNumber} of ${this.options.bucket}/${key}`);
+      }
+      parts.push(`<Part><PartNumber>${partNumber}</PartNumber><ETag>${etag}</ETag></Part>`);
+    };
+
+    return {
+      write: async (chunk) => {
+        buffered.push(chunk);
+        bufferedBytes += chunk.length;
+
+        // Keep the remainder buffered: the last part may be smaller than the others
+        while (bufferedBytes > this.partSize) {
+          await uploadPart(takeBuffered(this.partSize));
+        }
+      },
+
+      complete: async () => {
+        const body = takeBuffered(bufferedBytes);
+        if (!uploadId) {
+          await this.request('PUT', key, {}, body, headers, signal);
+          return;
+        }
+
+        if (body.length > 0) {
+          await uploadPart(body);
+        }
+
+        const completion = `<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`;
+        const response = await this.request('POST', key, { uploadId }, new TextEncoder().encode(completion), { 'Content-Type': 'application/xml' }, signal);
+
+        // CompleteMultipartUpload can fail after S3 has already answered 200
+        const result = await response.text();
+        if (result.includes('<Error>')) {
+          throw new Error(`S3 multipart upload failed: ${xmlValue(result, 'Code')}: ${xmlValue(result, 'Message')}`);
+        }
+      },
+
+      abort: async () => {
+        buffered = [];
+        bufferedBytes = 0;
+        // Abort so the uploaded parts don't keep accruing storage
+        if (uploadId) {
+          await this.request('DELETE', key, { uploadId }).catch(() => undefined);
+        }
+      },
+    };
+  }
+
+  private async request(method: string, key: string, query: Record<string, string> = {}, body?: Uint8Array<ArrayBuffer>, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> {
+    const url = this.objectUrl(key);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+
+    const signedHeaders = signRequest({ method, url, headers, payloadHash: sha256Hex(body ?? '') }, this.options.credentials, this.options.region, 's3');
+
+    const response = await fetch(url, { method, headers: signedHeaders, body, signal });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const code = xmlValue(text, 'Code');
+      const message = xmlValue(text, 'Message');
+      throw new HttpError(
+        `S3 ${method} ${this.options.bucket}/${key} failed - HTTP ${response.status}${code ? `: ${code}` : ''}${message ? ` - ${message}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.options;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const path = key.split('/').map(encodeRfc3986).join('/');
+
+    if (forcePathStyle) {
+      return new URL(`${base.protocol}//${base.host}/${encodeRfc3986(bucket)}/${path}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${path}`);
+  }
+}
+
+function concat(chunks: Uint8Array<ArrayBuffer>[], length: number): Uint8Array<ArrayBuffer> {
+  if (chunks.length === 1) return chunks[0];
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)?.[1];
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'bun:test';
+import { createHmac } from 'crypto';
+import { gzipSync } from 'zlib';
+import { signRequest } from './signing';
+import { OutputSchema } from '../types/job-schema';
+
+const now = Date.parse('2024-01-01T00:00:00Z');
+
+describe('signRequest', () => {
+  it('should sign the timestamp and body with the defaults', () => {
+    const { signing } = OutputSchema.parse({ type: 'webhook', endpoint: 'https://example.com/hook', signing: { secret: 'shh' } });
+    const headers = signRequest(signing!, { method: 'POST', url: 'https://example.com/hook', body: '[{"id":1}]' }, now);
+
+    expect(headers).toEqual({
+      'X-Signature': createHmac('sha256', 'shh').update('1704067200.[{"id":1}]').digest('hex'),
+      'X-Signature-Timestamp': '1704067200',
+    });
+  });
+
+  it('should sign the exact body bytes with a custom canonical string', () => {
+    const { signing } = OutputSchema.parse({
+      type: 'http',
+      endpoint: 'https://example.com/ingest',
+      signing: { secret: 'shh', algorithm: 'sha512', header: 'X-Hub-Signature', canonical: '{method} {url}\n{timestamp}\n{body}', encoding: 'base64', prefix: 'sha512=' },
+    });
+    const body = new Uint8Array(gzipSync('[{"id":1}]'));
+    const headers = signRequest(signing!, { method: 'PUT', url: 'https://example.com/ingest', body }, now);
+
+    const expected = createHmac('sha512', 'shh').update('PUT https://example.com/ingest\n1704067200\n').update(body).digest('base64');
+    expect(headers['X-Hub-Signature']).toBe(`sha512=${expected}`);
+  });
+});
@@ -0,0 +1,54 @@
+import { createHmac } from 'crypto';
+
+export interface SigningConfig {
+  algorithm: 'sha256' | 'sha512' | 'sha1';
+  secret: string;
+  header: string;
+  timestamp_header: string;
+  // Template of the signed string; {timestamp}, {method}, {url} and {body} are substituted
+  canonical: string;
+  encoding: 'hex' | 'base64';
+  // Prepended to the signature in the header, e.g. "sha256="
+  prefix: string;
+}
+
+export interface SignedRequest {
+  method: string;
+  url: string;
+  body?: string | Uint8Array;
+}
+
+/**
+ * Headers carrying an HMAC of the request and the Unix time (seconds) it was signed at
+ *
+ * The body is fed to the HMAC as the exact bytes sent (after formatting and compression),
+ * never re-serialized, so the receiver can verify it against the raw request body.
+ */
+export function signRequest(signing: SigningConfig, request: SignedRequest, now: number = Date.now()): Record<string, string> {
+  const timestamp = String(Math.floor(now / 1000));
+  const hmac = createHmac(signing.algorithm, signing.secret);
+
+  for (const part of signing.canonical.split(/(\{(?:timestamp|method|url|body)\})/)) {
+    switch (part) {
+      case '{timestamp}':
+        hmac.update(timestamp);
+        break;
+      case '{method}':
+        hmac.update(request.method);
+        break;
+      case '{url}':
+        hmac.update(request.url);
+        break;
+      case '{body}':
+        hmac.update(request.body ?? '');
+        break;
+      default:
+        hmac.update(part);
+    }
+  }
+
+  return {
+    [signing.header]: signing.prefix + hmac.digest(signing.encoding),
+    [signing.timestamp_header]: timestamp,
+  };
+}
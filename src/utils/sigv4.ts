@@ -0,0 +1,80 @@
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  // Path segments must already be encoded with encodeRfc3986
+  url: URL;
+  headers: Record<string, string>;
+  // Hex SHA-256 of the body, or UNSIGNED-PAYLOAD
+  payloadHash: string;
+}
+
+export function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Percent-encode everything except RFC 3986 unreserved characters, as SigV4 requires
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ *
+ * Returns the headers to send: the request's own headers plus x-amz-date,
+ * x-amz-content-sha256, x-amz-security-token (for temporary credentials) and
+ * Authorization. The Host header is signed but left for fetch to set.
+ */
+export function signRequest(request: SignableRequest, credentials: AwsCredentials, region: string, service: string, now: Date = new Date()): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = new Map<string, string>([['host', request.url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const headerNames = Array.from(canonicalHeaders.keys()).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalQuery = Array.from(request.url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname || '/',
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${canonicalHeaders.get(name)}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const hmac = (key: string | Uint8Array, data: string): Uint8Array => new Uint8Array(createHmac('sha256', key).update(data).digest());
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region), service), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  headers.Authorization = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test';
+import { compileSql } from './sql-params';
+
+describe('compileSql', () => {
+  it('should compile placeholders to Postgres positional parameters', () => {
+    const compiled = compileSql('SELECT * FROM orders WHERE updated_at > {{watermark}} OR created_at > {{ watermark }}', { watermark: '2024-01-01' }, 'postgres');
+    expect(compiled.sql).toBe('SELECT * FROM orders WHERE updated_at > $1 OR created_at > $1');
+    expect(compiled.params).toEqual(['2024-01-01']);
+  });
+
+  it('should compile placeholders to MySQL question marks', () => {
+    const compiled = compileSql('SELECT * FROM orders WHERE updated_at > {{watermark}} OR created_at > {{watermark}}', { watermark: 5 }, 'mysql');
+    expect(compiled.sql).toBe('SELECT * FROM orders WHERE updated_at > ? OR created_at > ?');
+    expect(compiled.params).toEqual([5, 5]);
+  });
+
+  it('should leave SQL without placeholders untouched', () => {
+    const compiled = compileSql('SELECT 1', {}, 'postgres');
+    expect(compiled.sql).toBe('SELECT 1');
+    expect(compiled.params).toEqual([]);
+  });
+
+  it('should leave placeholders in literals, quoted identifiers and comments alone', () => {
+    const sql = `SELECT '{{a}}', 'it''s {{a}}', "{{a}}" -- {{a}}
+      /* {{a}} */ FROM t WHERE x = {{a}} AND y = $fn$ {{a}} $fn$ AND z = $$ {{a}} $$`;
+    const compiled = compileSql(sql, { a: 1 }, 'postgres');
+    expect(compiled.sql).toBe(sql.replace('x = {{a}}', 'x = $1'));
+    expect(compiled.params).toEqual([1]);
+  });
+
+  it('should follow MySQL quoting rules', () => {
+    const sql = "SELECT 'it\\'s {{a}}', `{{a}}` # {{a}}\nFROM t WHERE x = {{a}}";
+    const compiled = compileSql(sql, { a: 1 }, 'mysql');
+    expect(compiled.sql).toBe(sql.replace('x = {{a}}', 'x = ?'));
+    expect(compiled.params).toEqual([1]);
+
+    // Backslash is an ordinary character in standard SQL strings
+    expect(compileSql("SELECT 'C:\\' || {{a}}", { a: 1 }, 'sqlite').sql).toBe("SELECT 'C:\\' || ?");
+  });
+
+  it('should throw for unknown placeholders', () => {
+    expect(() => compileSql('SELECT {{missing}}', {}, 'postgres')).toThrow('{{missing}}');
+    expect(() => compileSql('SELECT {{constructor}}, {{toString}}', {}, 'postgres')).toThrow('{{constructor}}');
+  });
+});
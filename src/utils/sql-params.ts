@@ -0,0 +1,55 @@
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+export interface CompiledSql {
+  sql: string;
+  params: unknown[];
+}
+
+const PLACEHOLDER = String.raw`\{\{\s*(?<name>[a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}`;
+const COMMENTS = String.raw`--[^\n]*|\/\*[\s\S]*?\*\/`;
+
+// Quoted literals, identifiers and comments are matched first so placeholders inside them are left alone
+const PATTERNS: Record<SqlDialect, RegExp> = {
+  // Backslash is not an escape in standard strings; $tag$...$tag$ is a dollar-quoted string
+  postgres: new RegExp(String.raw`'(?:[^']|'')*'|"(?:[^"]|"")*"|\$(?<tag>[a-zA-Z_]\w*)?\$[\s\S]*?\$\k<tag>\$|${COMMENTS}|${PLACEHOLDER}`, 'g'),
+  mysql: new RegExp(String.raw`'(?:[^'\\]|\\[\s\S]|'')*'|"(?:[^"\\]|\\[\s\S]|"")*"|\`(?:[^\`]|\`\`)*\`|#[^\n]*|${COMMENTS}|${PLACEHOLDER}`, 'g'),
+  sqlite: new RegExp(String.raw`'(?:[^']|'')*'|"(?:[^"]|"")*"|\`(?:[^\`]|\`\`)*\`|${COMMENTS}|${PLACEHOLDER}`, 'g'),
+};
+
+/**
+ * Compile `{{name}}` placeholders in a SQL string into positional bind parameters
+ * for the given dialect ($1, $2... for Postgres, ? for MySQL and SQLite).
+ * Values are never interpolated into the SQL text itself, and `{{name}}` inside
+ * string literals, quoted identifiers or comments is kept as written.
+ */
+export function compileSql(sql: string, values: Record<string, unknown>, dialect: SqlDialect): CompiledSql {
+  const params: unknown[] = [];
+  const positions = new Map<string, number>();
+
+  const compiled = sql.replace(PATTERNS[dialect], (match: string, ...args: unknown[]) => {
+    const { name } = args[args.length - 1] as { name?: string };
+    if (name === undefined) {
+      return match;
+    }
+
+    if (!Object.hasOwn(values, name)) {
+      throw new Error(`No value available for SQL placeholder: {{${name}}}`);
+    }
+
+    if (dialect === 'postgres') {
+      // Postgres can reference the same positional parameter more than once
+      let position = positions.get(name);
+      if (position === undefined) {
+        params.push(values[name]);
+        position = params.length;
+        positions.set(name, position);
+      }
+      return `$${position}`;
+    }
+
+    params.push(values[name]);
+    return '?';
+  });
+
+  return { sql: compiled, params };
+}
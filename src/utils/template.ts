@@ -0,0 +1,13 @@
+const TEMPLATE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Replace `{{name}}` placeholders in a string with the given values
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`Unknown template variable: {{${name}}}`);
+    }
+    return values[name];
+  });
+}